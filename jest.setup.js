@@ -0,0 +1,14 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Give the tests their own home, the configuration store and the WireGuard
+ * config directory are created on import
+ */
+export default function setup() {
+  const home = fs.mkdtempSync(path.join(os.tmpdir(), 'tpn-router-test-'));
+  process.env.TPN_ROUTER_TEST_HOME = home;
+  process.env.HOME = home;
+  process.env.XDG_CONFIG_HOME = path.join(home, '.config');
+}
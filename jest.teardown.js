@@ -0,0 +1,10 @@
+import fs from 'fs';
+
+/**
+ * Remove the home created by jest.setup.js
+ */
+export default function teardown() {
+  if (process.env.TPN_ROUTER_TEST_HOME) {
+    fs.rmSync(process.env.TPN_ROUTER_TEST_HOME, { recursive: true, force: true });
+  }
+}
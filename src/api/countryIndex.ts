@@ -0,0 +1,223 @@
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import { CountryIndexSnapshot, ValidatorEndpoint } from '../types/index.js';
+import { getActiveValidators, getConfig, getValidatorScore, getValidatorKey, recordValidatorSuccess, recordValidatorFailure } from '../utils/config.js';
+import { getCountryIndexPath } from '../utils/state.js';
+import logger from '../utils/logger.js';
+import { isCountryCode } from '../utils/countries.js';
+
+/**
+ * Index of the countries offered by every active validator.
+ * Validators are queried in parallel and the result is persisted on disk with a TTL.
+ */
+export class CountryIndex {
+  private snapshot: CountryIndexSnapshot | null = null;
+  // Refresh in progress, shared by concurrent callers
+  private refreshing: Promise<void> | null = null;
+  
+  /**
+   * Get the countries offered by one validator
+   * @param validator Validator to query
+   * @param useCache Whether to use the indexed list if it is still fresh
+   * @returns Promise resolving to the country codes
+   */
+  async getCountriesForValidator(validator: ValidatorEndpoint, useCache: boolean = true): Promise<string[]> {
+    const key = this.getKey(validator);
+    const entry = this.load().validators[key];
+    
+    if (useCache && entry && this.isFresh(entry.fetchedAt)) {
+      logger.debug(`Using indexed countries for ${key}`);
+      return entry.countries;
+    }
+    
+    const countries = await this.fetchCountries(validator, 10000);
+    this.store({ [key]: countries });
+    return countries;
+  }
+  
+  /**
+   * Get the country → validators map, querying the validators whose entry is missing or stale
+   * @param refresh Query every validator even if its entry is fresh
+   * @returns Promise resolving to a map of country code to validators offering it
+   */
+  async getIndex(refresh: boolean = false): Promise<Map<string, ValidatorEndpoint[]>> {
+    await this.refresh(refresh);
+    
+    const { validators } = this.load();
+    const index = new Map<string, ValidatorEndpoint[]>();
+    
+    for (const validator of getActiveValidators()) {
+      const entry = validators[this.getKey(validator)];
+      for (const country of entry?.countries || []) {
+        const list = index.get(country) || [];
+        list.push(validator);
+        index.set(country, list);
+      }
+    }
+    
+    return index;
+  }
+  
+  /**
+   * Get the countries offered by each active validator
+   * @param refresh Query every validator even if its entry is fresh
+   * @returns Promise resolving to a map of ip:port to country codes
+   */
+  async getCountriesByValidator(refresh: boolean = false): Promise<Map<string, string[]>> {
+    await this.refresh(refresh);
+    
+    const { validators } = this.load();
+    const byValidator = new Map<string, string[]>();
+    for (const validator of getActiveValidators()) {
+      const entry = validators[this.getKey(validator)];
+      if (entry) {
+        byValidator.set(this.getKey(validator), entry.countries);
+      }
+    }
+    return byValidator;
+  }
+  
+  /**
+   * Find the validators offering a country, best score first
+   * @param country Country code
+   * @returns Promise resolving to the validators, empty if none
+   */
+  async findValidators(country: string): Promise<ValidatorEndpoint[]> {
+    const index = await this.getIndex();
+    return [...(index.get(country) || [])].sort((a, b) => getValidatorScore(b) - getValidatorScore(a));
+  }
+  
+  /**
+   * Query the validators whose entry is missing or stale, a few at a time
+   * @param force Query every validator even if its entry is fresh
+   */
+  async refresh(force: boolean = false): Promise<void> {
+    if (this.refreshing) {
+      return this.refreshing;
+    }
+    
+    const { concurrency, timeout } = getConfig().countryIndex;
+    const { validators } = this.load();
+    const pending = getActiveValidators().filter(validator => {
+      const entry = validators[this.getKey(validator)];
+      return force || !entry || !this.isFresh(entry.fetchedAt);
+    });
+    
+    if (pending.length === 0) {
+      return;
+    }
+    
+    this.refreshing = (async () => {
+      logger.debug(`Fetching countries from ${pending.length} validators, ${concurrency} at a time`);
+      const fetched: Record<string, string[]> = {};
+      const queue = [...pending];
+      
+      const worker = async () => {
+        for (let validator = queue.shift(); validator; validator = queue.shift()) {
+          try {
+            fetched[this.getKey(validator)] = await this.fetchCountries(validator, timeout);
+          } catch (error) {
+            logger.warn(`Could not fetch countries from ${validator.ip}:${validator.port}`);
+          }
+        }
+      };
+      await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, pending.length)) }, worker));
+      
+      this.store(fetched);
+    })();
+    
+    try {
+      await this.refreshing;
+    } finally {
+      this.refreshing = null;
+    }
+  }
+  
+  /**
+   * Fetch the country list of a validator
+   * @param validator Validator to query
+   * @param timeout Timeout in milliseconds
+   * @returns Promise resolving to the country codes
+   */
+  private async fetchCountries(validator: ValidatorEndpoint, timeout: number): Promise<string[]> {
+    const url = `http://${validator.ip}:${validator.port}/api/config/countries`;
+    logger.debug(`Fetching available countries from ${url}`);
+    
+    const startedAt = Date.now();
+    try {
+      const response = await axios.get<unknown>(url, { timeout });
+      // Une réponse malformée compte comme un échec du validateur
+      const countries = response.data;
+      if (!Array.isArray(countries) || !countries.every(code => typeof code === 'string' && isCountryCode(code))) {
+        throw new Error('response is not a list of ISO 3166-1 alpha-2 country codes');
+      }
+      recordValidatorSuccess(getValidatorKey(validator), Date.now() - startedAt);
+      return countries;
+    } catch (error) {
+      recordValidatorFailure(getValidatorKey(validator), (error as Error).message);
+      throw new Error(`Failed to get available countries: ${(error as Error).message}`);
+    }
+  }
+  
+  /**
+   * Get the index key of a validator
+   */
+  private getKey(validator: ValidatorEndpoint): string {
+    return getValidatorKey(validator);
+  }
+  
+  /**
+   * Check if an entry is younger than the TTL
+   */
+  private isFresh(fetchedAt: number): boolean {
+    return Date.now() - fetchedAt < getConfig().countryIndex.ttl * 1000;
+  }
+  
+  /**
+   * Read the persisted index, once per process
+   */
+  private load(): CountryIndexSnapshot {
+    if (this.snapshot) {
+      return this.snapshot;
+    }
+    
+    try {
+      const filePath = getCountryIndexPath();
+      this.snapshot = fs.existsSync(filePath)
+        ? JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CountryIndexSnapshot
+        : { validators: {} };
+    } catch (error) {
+      // A corrupt index is rebuilt from scratch
+      logger.debug(`Ignoring unreadable country index: ${(error as Error).message}`);
+      this.snapshot = { validators: {} };
+    }
+    return this.snapshot;
+  }
+  
+  /**
+   * Merge fetched country lists into the index and persist it
+   * @param fetched Country lists keyed by ip:port
+   */
+  private store(fetched: Record<string, string[]>): void {
+    const snapshot = this.load();
+    const now = Date.now();
+    for (const [key, countries] of Object.entries(fetched)) {
+      snapshot.validators[key] = { countries, fetchedAt: now };
+    }
+    
+    try {
+      const filePath = getCountryIndexPath();
+      fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+      // Write to a temporary file first so a crash never leaves half an index
+      const tmpFile = `${filePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tmpFile, JSON.stringify(snapshot, null, 2));
+      fs.renameSync(tmpFile, filePath);
+    } catch (error) {
+      logger.warn(`Could not persist the country index: ${(error as Error).message}`);
+    }
+  }
+}
+
+// Export singleton instance
+export default new CountryIndex();
@@ -0,0 +1,140 @@
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { IpChange, PublicIpResult } from '../types/index.js';
+import { getConfig } from '../utils/config.js';
+import logger from '../utils/logger.js';
+
+// Plain-text answers are short, anything longer is not an address
+const MAX_RESPONSE_LENGTH = 256;
+
+/**
+ * Class to detect the public IP addresses of this machine, by asking several providers
+ * over IPv4 and IPv6 separately and only trusting an address enough of them agree on
+ */
+export class IpResolver {
+  /**
+   * Get the public IPv4 and IPv6 addresses
+   * @returns Promise resolving to the agreed addresses, a family is missing if there is no consensus
+   */
+  async getPublicIps(): Promise<PublicIpResult> {
+    const [ipv4, ipv6] = await Promise.all([this.resolve(4), this.resolve(6)]);
+    return { ipv4, ipv6 };
+  }
+  
+  /**
+   * Get the public address of one family
+   * @param family 4 or 6
+   * @returns Promise resolving to the agreed address, or undefined if there is no consensus
+   */
+  async resolve(family: 4 | 6): Promise<string | undefined> {
+    const { providers, timeout, minAgreement } = getConfig().ipResolver;
+    if (providers.length === 0) {
+      throw new Error('No public IP providers configured');
+    }
+    
+    const answers = await Promise.all(providers.map(provider => this.query(provider, family, timeout)));
+    
+    // Count the votes for each address
+    const votes = new Map<string, number>();
+    for (const ip of answers) {
+      if (ip) {
+        votes.set(ip, (votes.get(ip) || 0) + 1);
+      }
+    }
+    
+    const [best, count] = [...votes.entries()].sort((a, b) => b[1] - a[1])[0] || [];
+    // A single configured provider cannot be outvoted
+    const required = Math.min(minAgreement, providers.length);
+    
+    if (best && count >= required) {
+      logger.debug(`Public IPv${family}: ${best} (${count}/${providers.length} providers agree)`);
+      return best;
+    }
+    
+    if (votes.size > 0) {
+      logger.warn(`No consensus on the public IPv${family}: ${[...votes.entries()].map(([ip, n]) => `${ip} (${n})`).join(', ')}`);
+    } else {
+      logger.debug(`No provider returned an IPv${family} address`);
+    }
+    return undefined;
+  }
+  
+  /**
+   * Compare an address recorded earlier with the current ones
+   * @param original Address recorded earlier
+   * @param current Current addresses
+   * @returns 'unchanged', 'changed', or 'unknown' if either side is missing
+   */
+  compare(original: string | undefined, current: PublicIpResult): IpChange {
+    if (!original || net.isIP(original) === 0) {
+      return 'unknown';
+    }
+    
+    const now = net.isIP(original) === 6 ? current.ipv6 : current.ipv4;
+    if (!now) {
+      return 'unknown';
+    }
+    return now === original ? 'unchanged' : 'changed';
+  }
+  
+  /**
+   * Ask one provider for the caller's address over one family
+   * @param provider Provider URL
+   * @param family 4 or 6
+   * @param timeout Timeout in milliseconds
+   * @returns Promise resolving to the address, or undefined if the provider failed
+   */
+  private query(provider: string, family: 4 | 6, timeout: number): Promise<string | undefined> {
+    return new Promise(resolve => {
+      let url: URL;
+      try {
+        url = new URL(provider);
+      } catch (error) {
+        logger.warn(`Invalid public IP provider URL: ${provider}`);
+        resolve(undefined);
+        return;
+      }
+      
+      const client = url.protocol === 'http:' ? http : https;
+      const request = client.get(url, {
+        family,
+        timeout,
+        headers: { 'User-Agent': 'tpn-router', Accept: 'text/plain' }
+      }, response => {
+        let body = '';
+        response.setEncoding('utf8');
+        response.on('data', chunk => {
+          body += chunk;
+          if (body.length > MAX_RESPONSE_LENGTH) {
+            request.destroy();
+          }
+        });
+        response.on('end', () => {
+          const ip = body.trim();
+          // Only accept a bare address of the requested family
+          if (response.statusCode === 200 && net.isIP(ip) === family) {
+            resolve(ip);
+          } else {
+            logger.debug(`Invalid answer from ${provider} over IPv${family}: ${ip.slice(0, 60)}`);
+            resolve(undefined);
+          }
+        });
+      });
+      
+      request.on('timeout', () => {
+        logger.debug(`${provider} timed out over IPv${family}`);
+        request.destroy();
+      });
+      request.on('error', error => {
+        logger.debug(`${provider} failed over IPv${family}: ${error.message}`);
+        resolve(undefined);
+      });
+      // Destroyed requests (timeout, oversized answer) end here
+      request.on('close', () => resolve(undefined));
+    });
+  }
+}
+
+// Export singleton instance
+export default new IpResolver();
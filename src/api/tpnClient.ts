@@ -1,56 +1,28 @@
 import axios from 'axios';
-import { TpnConfigResponse, ValidatorEndpoint } from '../types/index.js';
+import { LeaseOptions, TpnConfigResponse, ValidatorEndpoint } from '../types/index.js';
 import logger from '../utils/logger.js';
-import { getActiveValidators, getConfig } from '../utils/config.js';
+import { getActiveValidators, getValidatorScore, getValidatorKey, isInValidatorSubset, recordValidatorSuccess, recordValidatorFailure } from '../utils/config.js';
+import countryIndex from './countryIndex.js';
 
 /**
  * TPN Client to interact with TPN network validators
  */
 export class TpnClient {
-  // Cache des pays disponibles par validateur
-  private countryCache: Map<string, { countries: string[], timestamp: number }> = new Map();
-  private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
-
   /**
    * Get available country codes from a validator
    * @param validator Validator endpoint to query
-   * @param useCache Whether to use cached country list if available
+   * @param useCache Whether to use the country index if its entry is still fresh
    * @returns Array of available country codes
    */
   async getAvailableCountries(validator: ValidatorEndpoint, useCache: boolean = true): Promise<string[]> {
-    const cacheKey = `${validator.ip}:${validator.port}`;
-    const now = Date.now();
-    
-    // Check cache first if allowed
-    if (useCache && this.countryCache.has(cacheKey)) {
-      const cache = this.countryCache.get(cacheKey)!;
-      if (now - cache.timestamp < this.CACHE_TTL) {
-        logger.debug(`Using cached countries for ${cacheKey}`);
-        return cache.countries;
-      }
-    }
-    
     try {
-      const url = `http://${validator.ip}:${validator.port}/api/config/countries`;
-      logger.debug(`Fetching available countries from ${url}`);
-      
-      const response = await axios.get<string[]>(url, {
-        timeout: 10000 // 10 secondes de timeout
-      });
-      
-      // Update cache
-      this.countryCache.set(cacheKey, {
-        countries: response.data,
-        timestamp: now
-      });
-      
-      return response.data;
+      return await countryIndex.getCountriesForValidator(validator, useCache);
     } catch (error) {
       logger.error(`Failed to get available countries from ${validator.ip}:${validator.port}`, error);
-      throw new Error(`Failed to get available countries: ${(error as Error).message}`);
+      throw error;
     }
   }
-
+  
   /**
    * Get a random country from available countries
    * @param validator Validator to query for available countries
@@ -76,7 +48,7 @@ export class TpnClient {
       return undefined;
     }
   }
-
+  
   /**
    * Get a new VPN configuration from a specific country
    * @param validator Validator endpoint to query
@@ -112,6 +84,7 @@ export class TpnClient {
         const url = `http://${validator.ip}:${validator.port}/api/config/new`;
         logger.debug(`Attempt ${attempt + 1}/${retryCount}: Fetching config from ${url} for country: ${actualCountry}`);
         
+        const startedAt = Date.now();
         const response = await axios.get<TpnConfigResponse>(url, {
           params: {
             format: 'json',
@@ -120,6 +93,7 @@ export class TpnClient {
           },
           timeout: 15000 // 15 secondes de timeout
         });
+        recordValidatorSuccess(getValidatorKey(validator), Date.now() - startedAt);
         
         logger.debug(`Successfully got config from ${validator.ip}:${validator.port} for country: ${actualCountry}`);
         
@@ -133,6 +107,7 @@ export class TpnClient {
       } catch (error) {
         lastError = error as Error;
         logger.warn(`Attempt ${attempt + 1}/${retryCount} failed: ${(error as Error).message}`);
+        recordValidatorFailure(getValidatorKey(validator), (error as Error).message);
         
         // Si ce n'est pas la dernière tentative, attendez un peu avant de réessayer
         if (attempt < retryCount - 1) {
@@ -143,7 +118,7 @@ export class TpnClient {
           // Essayer avec un autre validateur aléatoire pour les tentatives suivantes
           if (attempt > 0) {
             try {
-              validator = this.getRandomValidator(validator.ip); // Exclut le validateur actuel
+              validator = this.getRandomValidator(getValidatorKey(validator)); // Exclut le validateur actuel
               logger.info(`Switching to validator: ${validator.ip}:${validator.port}`);
               
               // Try a different country if the previous one failed
@@ -166,7 +141,60 @@ export class TpnClient {
     logger.error(`Failed to get new config after ${retryCount} attempts`);
     throw new Error(`Failed to get new config: ${lastError?.message}`);
   }
-
+  
+  /**
+   * Get a new VPN configuration from the first country of a fallback chain that can provide one.
+   * Each country is tried on every validator offering it, best scored first; 'any' takes a random one.
+   * @param chain Countries in order of preference, e.g. ['FR', 'BE', 'any']
+   * @param leaseMinutes Lease duration in minutes
+   * @param excludeValidators ip:port of validators not to ask, e.g. those serving the other hops
+   * @param options Validators to ask, those of the current route by default
+   * @returns TPN configuration response, with the country finally used and the validator that answered
+   */
+  async getConfigFromChain(
+    chain: string[],
+    leaseMinutes: number = 5,
+    excludeValidators: string[] = [],
+    options: LeaseOptions = {}
+  ): Promise<TpnConfigResponse> {
+    const countries = chain.length > 0 ? chain : ['any'];
+    const errors: string[] = [];
+    
+    // Candidates are taken once: a validator backing off after failing one country may still serve the next
+    const byScore = (a: ValidatorEndpoint, b: ValidatorEndpoint) => getValidatorScore(b) - getValidatorScore(a);
+    const allowed = (validator: ValidatorEndpoint) =>
+      !excludeValidators.includes(getValidatorKey(validator)) && isInValidatorSubset(validator, options.validators);
+    const active = getActiveValidators(options.validators).filter(allowed).sort(byScore);
+    const index = await countryIndex.getIndex().catch(() => new Map<string, ValidatorEndpoint[]>());
+    
+    for (const country of countries) {
+      // Without any indexed country, every validator is asked
+      const validators = country === 'any' || index.size === 0
+        ? active
+        : (index.get(country) || []).filter(allowed).sort(byScore);
+      if (validators.length === 0) {
+        logger.warn(`No active validator offers ${country}`);
+        errors.push(`${country}: not offered`);
+        continue;
+      }
+      
+      for (const validator of validators) {
+        try {
+          const response = await this.getNewConfig(validator, country, leaseMinutes, 1);
+          if (country !== countries[0]) {
+            logger.info(`Using fallback country ${response.country} (requested ${countries.join('|')})`);
+          }
+          return { ...response, validator: getValidatorKey(validator) };
+        } catch (error) {
+          logger.warn(`${validator.ip}:${validator.port} could not provide a lease in ${country}`);
+        }
+      }
+      errors.push(`${country}: ${validators.length} validators failed`);
+    }
+    
+    throw new Error(`No lease available in ${countries.join('|')} (${errors.join('; ')})`);
+  }
+  
   /**
    * Get a new VPN configuration as raw text
    * @param validator Validator endpoint to query
@@ -198,6 +226,7 @@ export class TpnClient {
       const url = `http://${validator.ip}:${validator.port}/api/config/new`;
       logger.debug(`Fetching new config text from ${url} for country: ${actualCountry}`);
       
+      const startedAt = Date.now();
       const response = await axios.get<string>(url, {
         params: {
           format: 'text',
@@ -206,54 +235,56 @@ export class TpnClient {
         },
         timeout: 15000 // 15 secondes de timeout
       });
+      recordValidatorSuccess(getValidatorKey(validator), Date.now() - startedAt);
       
       return response.data;
     } catch (error) {
       logger.error(`Failed to get new config text from ${validator.ip}:${validator.port}`, error);
+      recordValidatorFailure(getValidatorKey(validator), (error as Error).message);
       throw new Error(`Failed to get new config text: ${(error as Error).message}`);
     }
   }
-
+  
   /**
    * Find a validator that has a specific country available
    * @param country Country code to look for
    * @returns Validator that has the requested country, or undefined if none found
    */
   async findValidatorForCountry(country: string): Promise<ValidatorEndpoint | undefined> {
-    const validators = getActiveValidators();
-    
-    for (const validator of validators) {
-      try {
-        const countries = await this.getAvailableCountries(validator);
-        if (countries.includes(country)) {
-          return validator;
-        }
-      } catch (error) {
-        logger.warn(`Validator ${validator.ip} does not have country ${country} available`);
-      }
+    // All validators are queried in parallel, and only when the index is stale
+    const validators = await countryIndex.findValidators(country);
+    if (validators.length === 0) {
+      logger.warn(`No active validator has country ${country} available`);
     }
-    
-    return undefined;
+    return validators[0];
   }
-
+  
   /**
-   * Get a random active validator
-   * @param excludeIp Optional IP to exclude from selection
+   * Get a random active validator, weighted by health score
+   * @param excludeKey Optional ip:port of a validator to exclude from selection
    * @returns Random validator endpoint
    */
-  getRandomValidator(excludeIp?: string): ValidatorEndpoint {
+  getRandomValidator(excludeKey?: string): ValidatorEndpoint {
     let validators = getActiveValidators();
     
-    if (excludeIp) {
-      validators = validators.filter((v: ValidatorEndpoint) => v.ip !== excludeIp);
+    if (excludeKey) {
+      validators = validators.filter((v: ValidatorEndpoint) => getValidatorKey(v) !== excludeKey);
     }
     
     if (validators.length === 0) {
       throw new Error('No active validators available');
     }
     
-    const randomIndex = Math.floor(Math.random() * validators.length);
-    return validators[randomIndex];
+    // Weighted draw, healthy and fast validators are picked more often
+    const scores = validators.map(v => Math.max(getValidatorScore(v), 0.01));
+    let draw = Math.random() * scores.reduce((sum, score) => sum + score, 0);
+    for (let i = 0; i < validators.length; i++) {
+      draw -= scores[i];
+      if (draw < 0) {
+        return validators[i];
+      }
+    }
+    return validators[validators.length - 1];
   }
 }
 
@@ -1,18 +1,30 @@
+import fs from 'fs';
+import net from 'net';
 import axios from 'axios';
-import { ValidatorEndpoint } from '../types/index.js';
-import { getConfig, updateValidatorStatus, addValidator } from '../utils/config.js';
+import { ValidatorDiscoverySource, ValidatorEndpoint } from '../types/index.js';
+import { getConfig, addValidator, getActiveValidators, getValidatorKey, recordValidatorSuccess, recordValidatorFailure } from '../utils/config.js';
 import logger from '../utils/logger.js';
 
+// Port used when a discovered entry does not give one
+const DEFAULT_VALIDATOR_PORT = 3000;
+// Path where validators list the validators they know, if they support peer exchange
+const PEER_EXCHANGE_PATH = '/api/validators';
+
 /**
  * Class for managing TPN validator endpoints
  */
 export class ValidatorEndpointManager {
+  // Sources registered in code, in addition to the configured ones
+  private extraSources: ValidatorDiscoverySource[] = [];
+  private discovering = false;
+  
   /**
    * Check if a validator is reachable
    * @param validator Validator to check
    * @returns Promise resolving to boolean indicating if validator is active
    */
   async checkValidator(validator: ValidatorEndpoint): Promise<boolean> {
+    const startedAt = Date.now();
     try {
       const url = `http://${validator.ip}:${validator.port}/api/config/countries`;
       logger.debug(`Checking validator at ${url}`);
@@ -20,13 +32,17 @@ export class ValidatorEndpointManager {
       const response = await axios.get(url, { timeout: 5000 });
       const isActive = response.status === 200;
       
-      // Update the validator status in config
-      updateValidatorStatus(validator.ip, isActive);
+      // Update the validator stats in config
+      if (isActive) {
+        recordValidatorSuccess(getValidatorKey(validator), Date.now() - startedAt);
+      } else {
+        recordValidatorFailure(getValidatorKey(validator), `HTTP ${response.status}`);
+      }
       
       return isActive;
     } catch (error) {
       logger.warn(`Validator ${validator.ip}:${validator.port} is not reachable`, error);
-      updateValidatorStatus(validator.ip, false);
+      recordValidatorFailure(getValidatorKey(validator), (error as Error).message);
       return false;
     }
   }
@@ -49,6 +65,14 @@ export class ValidatorEndpointManager {
     await Promise.all(checkPromises);
     
     logger.info(`Found ${activeCount} active validators out of ${validators.length}`);
+    
+    // Too few validators left, look for more
+    const { minActiveValidators } = getConfig().discovery;
+    if (activeCount < minActiveValidators && !this.discovering) {
+      logger.info(`Fewer than ${minActiveValidators} active validators, running discovery...`);
+      activeCount += await this.discoverValidators();
+    }
+    
     return activeCount;
   }
 
@@ -81,14 +105,170 @@ export class ValidatorEndpointManager {
   }
 
   /**
-   * Discover new validators (could integrate with a discovery service in the future)
+   * Register an additional discovery source
+   * @param source Source to query on every discovery
+   */
+  registerSource(source: ValidatorDiscoverySource): void {
+    this.extraSources.push(source);
+  }
+  
+  /**
+   * Discover new validators from the seed file, the bootstrap URL, peer exchange and registered sources.
+   * New entries are checked and only reachable ones are added.
    * @returns Promise resolving to number of new validators discovered
    */
   async discoverValidators(): Promise<number> {
-    // In a real implementation, this would query a discovery service
-    // For now, we'll just return 0 as we're not implementing this yet
-    logger.info('Validator discovery not implemented yet');
-    return 0;
+    if (this.discovering) {
+      return 0;
+    }
+    this.discovering = true;
+    
+    try {
+      const known = new Set(getConfig().validators.map(v => `${v.ip}:${v.port}`));
+      const candidates = new Map<string, ValidatorEndpoint>();
+      
+      const results = await Promise.allSettled(this.getSources().map(async source => ({
+        source,
+        validators: await source.discover()
+      })));
+      
+      for (const result of results) {
+        if (result.status === 'rejected') {
+          logger.warn(`Validator discovery source failed: ${(result.reason as Error).message}`);
+          continue;
+        }
+        
+        const { source, validators } = result.value;
+        logger.debug(`Discovery source ${source.name} returned ${validators.length} validators`);
+        for (const validator of validators) {
+          const key = `${validator.ip}:${validator.port}`;
+          if (!known.has(key) && !candidates.has(key)) {
+            candidates.set(key, validator);
+          }
+        }
+      }
+      
+      if (candidates.size === 0) {
+        logger.info('No new validators discovered');
+        return 0;
+      }
+      
+      logger.info(`Checking ${candidates.size} discovered validators...`);
+      let added = 0;
+      await Promise.all([...candidates.values()].map(async validator => {
+        if (await this.checkValidator(validator)) {
+          addValidator({ ...validator, isActive: true, lastChecked: new Date() });
+          logger.success(`Discovered validator: ${validator.ip}:${validator.port}`);
+          added++;
+        }
+      }));
+      
+      logger.info(`Added ${added} of ${candidates.size} discovered validators`);
+      return added;
+    } finally {
+      this.discovering = false;
+    }
+  }
+  
+  /**
+   * Build the discovery sources from the configuration
+   * @returns Configured and registered sources
+   */
+  private getSources(): ValidatorDiscoverySource[] {
+    const { seedFile, bootstrapUrl, peerExchange } = getConfig().discovery;
+    const sources: ValidatorDiscoverySource[] = [];
+    
+    if (seedFile) {
+      sources.push({
+        name: `seed file ${seedFile}`,
+        discover: async () => this.parseValidatorList(await fs.promises.readFile(seedFile, 'utf8'))
+      });
+    }
+    
+    if (bootstrapUrl) {
+      sources.push({
+        name: `bootstrap ${bootstrapUrl}`,
+        discover: async () => {
+          const response = await axios.get(bootstrapUrl, { timeout: 10000 });
+          return this.parseValidatorList(response.data);
+        }
+      });
+    }
+    
+    if (peerExchange) {
+      for (const validator of getActiveValidators()) {
+        sources.push({
+          name: `peer exchange ${validator.ip}:${validator.port}`,
+          discover: async () => {
+            try {
+              const url = `http://${validator.ip}:${validator.port}${PEER_EXCHANGE_PATH}`;
+              const response = await axios.get(url, { timeout: 5000 });
+              return this.parseValidatorList(response.data);
+            } catch (error) {
+              // Most validators do not expose peer exchange
+              logger.debug(`No peer exchange on ${validator.ip}:${validator.port}: ${(error as Error).message}`);
+              return [];
+            }
+          }
+        });
+      }
+    }
+    
+    return [...sources, ...this.extraSources];
+  }
+  
+  /**
+   * Parse a validator list: text with one ip[:port] per line, a JSON array of
+   * "ip:port" strings or { ip, port } objects, or an object with a validators array
+   * @param data Raw list
+   * @returns Parsed validators
+   */
+  private parseValidatorList(data: unknown): ValidatorEndpoint[] {
+    if (typeof data === 'string') {
+      const text = data.trim();
+      if (text.startsWith('[') || text.startsWith('{')) {
+        return this.parseValidatorList(JSON.parse(text));
+      }
+      data = text.split('\n')
+        .map(line => line.replace(/#.*$/, '').trim())
+        .filter(line => line);
+    }
+    
+    if (data && typeof data === 'object' && !Array.isArray(data) && Array.isArray((data as any).validators)) {
+      data = (data as any).validators;
+    }
+    
+    if (!Array.isArray(data)) {
+      throw new Error('Unrecognized validator list format');
+    }
+    
+    const validators: ValidatorEndpoint[] = [];
+    for (const entry of data) {
+      let ip: string | undefined;
+      let port = DEFAULT_VALIDATOR_PORT;
+      
+      if (typeof entry === 'string') {
+        const match = entry.trim().match(/^\[?([^\]]+?)\]?(?::(\d+))?$/);
+        // A bare IPv6 address has colons but no port
+        if (net.isIP(entry.trim())) {
+          ip = entry.trim();
+        } else if (match) {
+          ip = match[1];
+          port = match[2] ? parseInt(match[2], 10) : port;
+        }
+      } else if (entry && typeof entry.ip === 'string') {
+        ip = entry.ip;
+        port = entry.port ? parseInt(String(entry.port), 10) : port;
+      }
+      
+      if (ip && port > 0 && port < 65536) {
+        validators.push({ ip, port, isActive: false });
+      } else {
+        logger.debug(`Ignoring invalid validator entry: ${JSON.stringify(entry)}`);
+      }
+    }
+    
+    return validators;
   }
 }
 
@@ -0,0 +1,91 @@
+import fs from 'fs';
+import net from 'net';
+import { RpcRequest, RpcResponse } from '../types/index.js';
+import { getSocketPath, reviveCircuit } from '../utils/state.js';
+import logger from '../utils/logger.js';
+
+/**
+ * Client for the tpn-router daemon control socket
+ */
+export class ControlClient {
+  private nextId = 1;
+  
+  constructor(private socketPath: string = getSocketPath()) {}
+  
+  /**
+   * Check if a daemon is listening on the control socket
+   * @returns Promise resolving to boolean indicating if the daemon answered
+   */
+  async isDaemonRunning(): Promise<boolean> {
+    if (!fs.existsSync(this.socketPath)) {
+      return false;
+    }
+    
+    try {
+      await this.call('ping', {}, 2000);
+      return true;
+    } catch (error) {
+      logger.debug(`Daemon not reachable: ${(error as Error).message}`);
+      return false;
+    }
+  }
+  
+  /**
+   * Call a method on the daemon
+   * @param method Method name
+   * @param params Method parameters
+   * @param timeoutMs Time to wait for the answer (circuit builds can take minutes)
+   * @returns Promise resolving to the method result
+   */
+  call<T = any>(method: string, params: Record<string, any> = {}, timeoutMs: number = 5 * 60 * 1000): Promise<T> {
+    const request: RpcRequest = { jsonrpc: '2.0', id: this.nextId++, method, params };
+    
+    return new Promise<T>((resolve, reject) => {
+      const socket = net.createConnection(this.socketPath);
+      let buffer = '';
+      
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new Error(`Daemon did not answer '${method}' within ${timeoutMs}ms`));
+      }, timeoutMs);
+      
+      const finish = (error: Error | null, result?: T) => {
+        clearTimeout(timer);
+        socket.end();
+        if (error) reject(error);
+        else resolve(result as T);
+      };
+      
+      socket.setEncoding('utf-8');
+      socket.on('connect', () => {
+        socket.write(JSON.stringify(request) + '\n');
+      });
+      socket.on('data', (chunk: string) => {
+        buffer += chunk;
+        const newline = buffer.indexOf('\n');
+        if (newline < 0) return;
+        
+        try {
+          const response: RpcResponse = JSON.parse(buffer.slice(0, newline));
+          if (response.error) {
+            finish(new Error(response.error.message));
+            return;
+          }
+          
+          // Dates travel as strings, revive the circuit if the result carries one
+          const result = response.result;
+          if (result && result.circuit) {
+            result.circuit = reviveCircuit(result.circuit);
+          }
+          finish(null, result);
+        } catch (error) {
+          finish(new Error(`Invalid response from daemon: ${(error as Error).message}`));
+        }
+      });
+      socket.on('error', error => finish(error));
+    });
+  }
+}
+
+// Export singleton instance
+export default new ControlClient();
@@ -0,0 +1,210 @@
+import fs from 'fs';
+import net from 'net';
+import { RpcRequest, RpcResponse, RouteResult } from '../types/index.js';
+import routeManager from '../routing/routeManager.js';
+import { getSocketPath } from '../utils/state.js';
+import logger from '../utils/logger.js';
+
+// JSON-RPC 2.0 error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INTERNAL_ERROR = -32603;
+
+type RpcHandler = (params: Record<string, any>) => Promise<any>;
+
+// Read-only methods, answered at once even while a route operation runs.
+// Queued behind a long build, a ping would time out and the CLI would act on its own.
+const UNQUEUED_METHODS = ['ping', 'status'];
+
+/**
+ * Build the result of a route-changing command
+ */
+function routeResult(success: boolean): RouteResult {
+  return { success, circuit: routeManager.getActiveCircuit() };
+}
+
+/**
+ * Control socket served by the tpn-router daemon
+ */
+export class ControlServer {
+  private server: net.Server | null = null;
+  private socketPath: string = getSocketPath();
+  // Route operations are serialized so two clients never reconfigure interfaces at once
+  private queue: Promise<unknown> = Promise.resolve();
+  
+  private handlers: Record<string, RpcHandler> = {
+    ping: async () => ({ pid: process.pid }),
+    status: async () => routeManager.getStatus(),
+    connect: async (params) => routeResult(await routeManager.createDirectConnection(params.country || 'any', params.splitTunnel || null)),
+    start: async (params) => routeResult(await routeManager.createRoute(params.profile)),
+    import: async (params) => routeResult(await routeManager.connectWithConfig(params.config, params.splitTunnel || null)),
+    reconnect: async (params) => routeResult(await routeManager.reconnect(params.country)),
+    stop: async () => ({ success: await routeManager.stopRoute() }),
+  };
+  
+  /**
+   * Start listening on the control socket
+   * @param socketPath Path of the Unix-domain socket
+   */
+  async start(socketPath: string = getSocketPath()): Promise<void> {
+    this.socketPath = socketPath;
+    await this.removeStaleSocket();
+    
+    this.server = net.createServer(socket => this.handleConnection(socket));
+    
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.socketPath, () => {
+        this.server!.off('error', reject);
+        resolve();
+      });
+    });
+    
+    // The daemon runs as root, only the owner may drive it
+    fs.chmodSync(this.socketPath, 0o600);
+    logger.debug(`Control socket listening on ${this.socketPath}`);
+  }
+  
+  /**
+   * Stop listening and remove the socket file
+   */
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    this.server = null;
+    
+    if (fs.existsSync(this.socketPath)) {
+      fs.unlinkSync(this.socketPath);
+    }
+    logger.debug('Control socket closed');
+  }
+  
+  /**
+   * Remove a socket file left behind by a daemon that did not shut down cleanly
+   */
+  private async removeStaleSocket(): Promise<void> {
+    if (!fs.existsSync(this.socketPath)) return;
+    
+    const inUse = await new Promise<boolean>(resolve => {
+      const probe = net.createConnection(this.socketPath);
+      probe.once('connect', () => {
+        probe.destroy();
+        resolve(true);
+      });
+      probe.once('error', () => resolve(false));
+    });
+    
+    if (inUse) {
+      throw new Error(`Another daemon is already listening on ${this.socketPath}`);
+    }
+    
+    logger.debug(`Removing stale control socket ${this.socketPath}`);
+    fs.unlinkSync(this.socketPath);
+  }
+  
+  /**
+   * Read newline-delimited requests from a client and answer each one
+   */
+  private handleConnection(socket: net.Socket): void {
+    let buffer = '';
+    
+    socket.setEncoding('utf-8');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      
+      let newline;
+      while ((newline = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (!line) continue;
+        
+        this.handleLine(line)
+          .catch((error): RpcResponse => {
+            // Never let one bad request take the daemon down
+            logger.error(`Control request failed: ${(error as Error).message}`);
+            return { jsonrpc: '2.0', id: null, error: { code: INTERNAL_ERROR, message: 'Internal error' } };
+          })
+          .then(response => {
+            if (!socket.destroyed) {
+              socket.write(JSON.stringify(response) + '\n');
+            }
+          });
+      }
+    });
+    socket.on('error', error => {
+      logger.debug(`Control client error: ${error.message}`);
+    });
+  }
+  
+  /**
+   * Parse and dispatch a single request line
+   */
+  private async handleLine(line: string): Promise<RpcResponse> {
+    let request: RpcRequest;
+    
+    try {
+      request = JSON.parse(line);
+    } catch (error) {
+      return { jsonrpc: '2.0', id: null, error: { code: PARSE_ERROR, message: 'Parse error' } };
+    }
+    
+    // Valid JSON is not necessarily a request: null, 1 or "x" have no method
+    if (!this.isRequest(request)) {
+      return { jsonrpc: '2.0', id: null, error: { code: INVALID_REQUEST, message: 'Invalid Request' } };
+    }
+    
+    // Own handlers only, toString or __proto__ are not methods
+    const handler = Object.prototype.hasOwnProperty.call(this.handlers, request.method) ? this.handlers[request.method] : undefined;
+    if (!handler) {
+      return {
+        jsonrpc: '2.0',
+        id: request.id ?? null,
+        error: { code: METHOD_NOT_FOUND, message: `Unknown method: ${request.method}` }
+      };
+    }
+    
+    // Clients ping before every call, keep that out of the normal log
+    if (request.method === 'ping') {
+      logger.debug('Control request: ping');
+    } else {
+      logger.info(`Control request: ${request.method}`);
+    }
+    
+    let run: Promise<unknown>;
+    if (UNQUEUED_METHODS.includes(request.method)) {
+      run = handler(request.params || {});
+    } else {
+      run = this.queue.then(() => handler(request.params || {}));
+      this.queue = run.catch(() => undefined);
+    }
+    
+    try {
+      const result = await run;
+      return { jsonrpc: '2.0', id: request.id, result };
+    } catch (error) {
+      logger.error(`Control request ${request.method} failed: ${(error as Error).message}`);
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: { code: INTERNAL_ERROR, message: (error as Error).message }
+      };
+    }
+  }
+  
+  /**
+   * Check that a parsed line is a request object with a method and, if any, object params
+   */
+  private isRequest(value: unknown): value is RpcRequest {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return false;
+    }
+    const { method, params } = value as Record<string, unknown>;
+    return typeof method === 'string' &&
+      (params === undefined || (params !== null && typeof params === 'object' && !Array.isArray(params)));
+  }
+}
+
+// Export singleton instance
+export default new ControlServer();
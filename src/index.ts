@@ -1,16 +1,264 @@
 #!/usr/bin/env node
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import inquirer from 'inquirer';
-import ora from 'ora';
-import { ValidatorEndpoint } from './types/index.js';
+import qrcode from 'qrcode-terminal';
+import { Ora } from 'ora';
+import { DryRunPlan, GuardNode, PublicIpResult, IpChange, RouteProfile, RouteResult, RouteStatus, SplitTunnelRules, ValidatorEndpoint, WireGuardConfig } from './types/index.js';
 
 import routeManager from './routing/routeManager.js';
 import circuitBuilder from './routing/circuitBuilder.js';
+import guardManager from './routing/guardManager.js';
 import validatorEndpoints from './api/validatorEndpoints.js';
 import tpnClient from './api/tpnClient.js';
+import countryIndex from './api/countryIndex.js';
+import ipResolver from './api/ipResolver.js';
 import wireguardManager from './vpn/wireguardManager.js';
-import { getConfig, updateConfig, getActiveValidators } from './utils/config.js';
+import killSwitch from './vpn/killSwitch.js';
+import namespaceRunner from './vpn/namespaceRunner.js';
+import leakTest from './vpn/leakTest.js';
+import controlServer from './daemon/controlServer.js';
+import controlClient from './daemon/controlClient.js';
+import { getConfig, updateConfig, getActiveValidators, getValidatorScore, getConfigValue, setConfigValue, unsetConfigValue, resetConfig, getEnvOverrides } from './utils/config.js';
+import { listKeys, validateValue } from './utils/configSchema.js';
+import { parseCountryChain } from './utils/countries.js';
+import { listProfiles, getProfile, saveProfile, deleteProfile, getDefaultProfile, setDefaultProfile } from './utils/profiles.js';
+import { getSocketPath, clearState, getState } from './utils/state.js';
 import logger from './utils/logger.js';
+import { EXIT_CODES, setJsonMode, isJsonMode, createSpinner, print, printJson, fail, failOnError, serializeCircuit } from './utils/output.js';
+
+/**
+ * Run a route command on the daemon if one is running, locally otherwise
+ * @param method Control method name
+ * @param params Control method parameters
+ * @param local Local implementation used when no daemon is running
+ * @returns Promise resolving to the command result
+ */
+async function runOnDaemonOrLocally<T>(
+  method: string,
+  params: Record<string, any>,
+  local: () => Promise<T>
+): Promise<T> {
+  if (await controlClient.isDaemonRunning()) {
+    logger.debug(`Forwarding '${method}' to the tpn-router daemon`);
+    return controlClient.call<T>(method, params);
+  }
+  return local();
+}
+
+/**
+ * Split a comma-separated command-line list
+ * @param list Comma-separated entries
+ * @returns Trimmed, non-empty entries
+ */
+function parseList(list: string): string[] {
+  return list.split(',').map(entry => entry.trim()).filter(entry => entry);
+}
+
+/**
+ * Build the split tunnel rules given on the command line
+ * @param options Command options with optional comma-separated include/exclude lists
+ * @param base Rules of the profile in use, the configured ones if not given
+ * @returns Rules to use, or null to use the base ones
+ */
+function getSplitTunnelOptions(options: { include?: string; exclude?: string }, base?: SplitTunnelRules): SplitTunnelRules | null {
+  if (options.include === undefined && options.exclude === undefined) {
+    return null;
+  }
+  
+  // A list given on the command line replaces the base one
+  const splitTunnel = base || getConfig().splitTunnel;
+  return {
+    include: options.include !== undefined ? parseList(options.include) : splitTunnel.include,
+    exclude: options.exclude !== undefined ? parseList(options.exclude) : splitTunnel.exclude
+  };
+}
+
+/**
+ * Print the current public addresses, compared with the one recorded before the tunnel came up
+ * @param label Line label
+ * @param originalIp Address to compare with, if known
+ * @returns The addresses found and how they compare, for the JSON output
+ */
+async function printPublicIp(label: string, originalIp?: string): Promise<PublicIpResult & { change?: IpChange }> {
+  try {
+    const current = await ipResolver.getPublicIps();
+    const addresses = [current.ipv4, current.ipv6].filter(ip => ip).join(', ');
+    if (!addresses) {
+      print(`\n${label}: Unable to determine`);
+      return current;
+    }
+    
+    if (!originalIp) {
+      print(`\n${label}: ${addresses}`);
+      return current;
+    }
+    
+    const change = ipResolver.compare(originalIp, current);
+    print(`\n${label}: ${addresses} (${change})`);
+    if (change === 'unchanged') {
+      print('\nWARNING: Your IP address has not changed. The VPN might not be working properly.');
+    }
+    return { ...current, change };
+  } catch (err) {
+    print(`\n${label}: Unable to determine`);
+    return {};
+  }
+}
+
+/**
+ * Parse an --expires value
+ * @param value Minutes from now, or a date
+ * @returns Expiry timestamp
+ */
+function parseExpiry(value: string): number {
+  const expiresAt = /^\d+$/.test(value) ? Date.now() + parseInt(value, 10) * 60000 : Date.parse(value);
+  if (isNaN(expiresAt) || expiresAt <= Date.now()) {
+    throw new InvalidArgumentError('Expected a number of minutes or a future date.');
+  }
+  return expiresAt;
+}
+
+/**
+ * Parse a --country value: a country code, 'any', or a fallback chain
+ * @param value e.g. "FR", "FR,BE,CH,any" or "US|CA"
+ * @returns The chain, normalized as "FR|BE|CH|any"
+ */
+function parseCountryOption(value: string): string {
+  const chain = parseCountryChain(value).join('|');
+  const errors = validateValue('country', { type: 'country' }, chain);
+  if (errors.length > 0) {
+    throw new InvalidArgumentError('Expected country codes or \'any\', e.g. FR or FR,BE,any.');
+  }
+  return chain;
+}
+
+/**
+ * Parse a --countries value: one entry per hop, each a country or a fallback chain
+ * @param value e.g. "US,NL,BR" or "US|CA,NL|DE,any"
+ * @returns One normalized chain per hop
+ */
+function parseHopCountries(value: string): string[] {
+  return parseList(value).map(hop => {
+    const chain = parseCountryChain(hop).join('|');
+    if (validateValue('country', { type: 'country' }, chain).length > 0) {
+      throw new InvalidArgumentError(`Expected country codes or 'any' for each hop, e.g. US|CA,NL|DE,any (got '${hop}').`);
+    }
+    return chain;
+  });
+}
+
+/**
+ * Load a WireGuard config file to import, asking for the expiry and country when they were not given
+ * @param file Path of the .conf file
+ * @param expiresAt Expiry given on the command line
+ * @param country Country given on the command line
+ * @param spinner Running spinner, paused during the prompt
+ * @returns Promise resolving to the parsed configuration
+ */
+async function loadImportedConfig(file: string, expiresAt: number | undefined, country: string | undefined, spinner: Ora): Promise<WireGuardConfig> {
+  const config = await wireguardManager.loadConfigFile(file, expiresAt, country);
+  
+  // Without a terminal, keep the inferred values
+  if ((expiresAt && country) || isJsonMode() || !process.stdin.isTTY) {
+    return config;
+  }
+  
+  spinner.stop();
+  const answers = await inquirer.prompt([
+    {
+      type: 'number',
+      name: 'minutes',
+      message: 'Minutes left on this lease:',
+      default: Math.max(1, Math.round((config.expiresAt - Date.now()) / 60000)),
+      when: !expiresAt,
+      validate: (input: number) => input > 0 || 'Enter a positive number of minutes'
+    },
+    {
+      type: 'input',
+      name: 'country',
+      message: 'Country of the endpoint (leave empty if unknown):',
+      default: config.country || '',
+      when: !country
+    }
+  ]);
+  
+  if (answers.minutes !== undefined) {
+    config.expiresAt = Date.now() + answers.minutes * 60000;
+  }
+  if (answers.country !== undefined) {
+    config.country = answers.country.trim().toUpperCase() || undefined;
+  }
+  spinner.start();
+  return config;
+}
+
+/**
+ * Print what a --dry-run command would do
+ * @param plan Config files, commands and routes
+ */
+function printDryRun(plan: DryRunPlan): void {
+  for (const config of plan.configs) {
+    print(`\nWireGuard config ${config.configPath} (${config.country || 'Unknown'}, ${config.endpoint}, expires at ${new Date(config.expiresAt).toLocaleString()}):`);
+    config.config.trim().split('\n').forEach(line => print(`    ${line}`));
+  }
+  
+  print('\nCommands that would run:');
+  if (plan.commands.length === 0) {
+    print('  None');
+  }
+  plan.commands.forEach(command => print(`  ${command.split('\n').join('\n    ')}`));
+  
+  if (plan.routes.length > 0) {
+    print('\nRoutes and rules added by wg-quick:');
+    plan.routes.forEach(route => print(`  ${route}`));
+  }
+  
+  print('\nDry run: nothing was changed.');
+  printJson({ dryRun: true, ...plan });
+}
+
+/**
+ * Exit with EXIT_CODES.WIREGUARD_MISSING if the WireGuard tools are not installed
+ * @param spinner Running spinner
+ */
+function requireWireGuard(spinner: Ora): void {
+  if (!wireguardManager.isWireGuardInstalled()) {
+    fail(EXIT_CODES.WIREGUARD_MISSING, 'WireGuard is not installed on your system', spinner, [
+      'Please install WireGuard:',
+      '  - Mac: brew install wireguard-tools',
+      '  - Linux: sudo apt install -y wireguard wireguard-tools resolvconf'
+    ]);
+  }
+}
+
+/**
+ * Build the profile of a start command: the one named, else the default profile,
+ * with the mode and length given on the command line on top
+ * @param options start options
+ * @param spinner Running spinner
+ * @returns Copy of the profile, safe to change
+ */
+function getStartProfile(options: Record<string, any>, spinner: Ora): RouteProfile {
+  let profile: RouteProfile = { mode: 'simple' };
+  if (options.profile) {
+    const named = getProfile(options.profile);
+    if (!named) {
+      fail(EXIT_CODES.USAGE, `No profile named '${options.profile}', see 'tpn-router profile list'`, spinner);
+    }
+    profile = named;
+  } else {
+    profile = getDefaultProfile() || profile;
+  }
+  
+  if (options.mode !== undefined && options.mode !== 'simple' && options.mode !== 'circuit') {
+    fail(EXIT_CODES.USAGE, `Unknown mode '${options.mode}', use simple or circuit`, spinner);
+  }
+  return structuredClone({
+    ...profile,
+    mode: options.mode || profile.mode,
+    length: options.length || profile.length
+  });
+}
 
 // Create CLI program
 const program = new Command();
@@ -18,27 +266,50 @@ const program = new Command();
 program
   .name('tpn-router')
   .description('Dynamic routing client for TPN VPN network')
-  .version('0.1.0');
+  .version('0.1.0')
+  .option('--json', 'Print one JSON document instead of spinners and log lines')
+  .exitOverride((err) => {
+    // Help and version exit with 0, any other parsing error is a usage error
+    process.exit(err.exitCode === 0 ? EXIT_CODES.SUCCESS : EXIT_CODES.USAGE);
+  })
+  .hook('preAction', (thisCommand, actionCommand) => {
+    const names: string[] = [];
+    for (let command: Command | null = actionCommand; command && command !== thisCommand; command = command.parent) {
+      names.unshift(command.name());
+    }
+    setJsonMode(Boolean(thisCommand.opts().json), names.join(' '));
+    
+    // Une variable TPN_ROUTER_* invalide doit être signalée avant que le logger ne l'utilise
+    try {
+      getConfig();
+    } catch (error) {
+      fail(EXIT_CODES.USAGE, (error as Error).message);
+    }
+  });
 
 // Start command - creates and starts a new VPN connection
 program
   .command('start')
   .description('Start a new VPN connection')
-  .option('-m, --mode <mode>', 'Connection mode: simple or circuit', 'simple')
+  .option('-p, --profile <name>', 'Use a saved profile (the default profile if one is set)')
+  .option('-m, --mode <mode>', 'Connection mode: simple or circuit (default: simple)')
   .option('-l, --length <number>', 'Number of hops in circuit mode', parseInt)
-  .option('-c, --countries <list>', 'Comma-separated list of country codes')
+  .option('-c, --countries <list>', 'Comma-separated country codes, one per hop; "US|CA" tries US, then CA', parseHopCountries)
   .option('-i, --interactive', 'Choose countries interactively')
+  .option('--include <list>', 'Comma-separated CIDRs, IPs or domains to route through the tunnel (everything else bypasses it)')
+  .option('--exclude <list>', 'Comma-separated CIDRs, IPs or domains that bypass the tunnel')
+  .option('--dry-run', 'Fetch the leases and show the configs and commands without changing anything')
   .action(async (options) => {
-    const spinner = ora('Creating VPN connection...').start();
+    const spinner = createSpinner('Creating VPN connection...');
     
     try {
-      // Check if WireGuard is installed
-      if (!wireguardManager.isWireGuardInstalled()) {
-        spinner.fail('WireGuard is not installed on your system');
-        console.log('Please install WireGuard:');
-        console.log('  - Mac: brew install wireguard-tools');
-        console.log('  - Linux: sudo apt install -y wireguard wireguard-tools resolvconf');
-        process.exit(1);
+      // Start from the profile, command-line options take precedence over its settings
+      const profile = getStartProfile(options, spinner);
+      const isSimpleMode = profile.mode !== 'circuit';
+      
+      // Check if WireGuard is installed (a dry run only needs the leases)
+      if (!options.dryRun) {
+        requireWireGuard(spinner);
       }
       
       // Check validators
@@ -46,23 +317,22 @@ program
       const activeCount = await validatorEndpoints.checkAllValidators();
       
       if (activeCount === 0) {
-        spinner.fail('No active TPN validators found');
-        process.exit(1);
+        fail(EXIT_CODES.NO_VALIDATORS, 'No active TPN validators found', spinner);
       }
       
-      // Determine mode
-      const isSimpleMode = options.mode !== 'circuit';
-      
-      if (options.mode === 'circuit' && (!options.length || options.length < 2)) {
+      if (!isSimpleMode && profile.length !== undefined && profile.length < 2) {
         spinner.info('Circuit mode requires at least 2 hops, defaulting to 3');
-        options.length = 3;
+        profile.length = 3;
       }
       
       // Handle country selection
-      let countries: string[] | undefined;
+      let countries: string[] | undefined = profile.countries && profile.countries.length > 0 ? profile.countries : undefined;
       
       // Use interactive mode if specified
       if (options.interactive) {
+        if (isJsonMode()) {
+          fail(EXIT_CODES.USAGE, 'Interactive country selection is not available with --json', spinner);
+        }
         spinner.stop();
         
         // Get available countries from a random validator
@@ -70,8 +340,7 @@ program
         const availableCountries = await tpnClient.getAvailableCountries(validator);
         
         if (availableCountries.length === 0) {
-          console.log('No countries available from the selected validator');
-          process.exit(1);
+          fail(EXIT_CODES.FAILURE, 'No countries available from the selected validator');
         }
         
         // Sort countries for better display
@@ -95,7 +364,7 @@ program
           spinner.start(`Creating VPN connection to ${answer.country}...`);
         } else {
           // Circuit mode - select country for each hop
-          const circuitLength = options.length || getConfig().defaultCircuitLength;
+          const circuitLength = profile.length || getConfig().defaultCircuitLength;
           
           // Create prompts for each hop
           const countryPrompts = [];
@@ -119,14 +388,20 @@ program
           spinner.start('Building circuit with selected countries...');
         }
       } else if (options.countries) {
-        // Parse countries if provided via command line
-        countries = options.countries.split(',').map((c: string) => c.trim().toUpperCase());
+        // Countries given on the command line, already checked by parseHopCountries
+        countries = options.countries;
         
         if (isSimpleMode) {
           spinner.text = `Creating VPN connection to ${countries && countries.length > 0 ? countries[0] : 'any'}...`;
         } else {
           spinner.text = `Building circuit with countries: ${countries?.join(', ') || 'any'}`;
         }
+      } else if (countries) {
+        if (isSimpleMode) {
+          spinner.text = `Creating VPN connection to ${countries[0]}...`;
+        } else {
+          spinner.text = `Building circuit with countries: ${countries.join(', ')}`;
+        }
       } else {
         // Use preferred countries from config if available
         const { preferredCountries } = getConfig();
@@ -148,18 +423,26 @@ program
       }
       
       // Start the route
-      let success;
-      if (isSimpleMode) {
-        // Simple mode - direct VPN connection
-        success = await routeManager.createRoute(1, countries, true);
-      } else {
-        // Circuit mode - multi-hop routing
-        success = await routeManager.createRoute(options.length, countries, false);
+      profile.countries = countries;
+      profile.splitTunnel = getSplitTunnelOptions(options, profile.splitTunnel) || profile.splitTunnel;
+      
+      if (options.dryRun) {
+        const plan = await routeManager.planRoute(profile);
+        spinner.succeed(isSimpleMode ? 'Lease fetched' : `Leases fetched for ${plan.configs.length} hops`);
+        printDryRun(plan);
+        return;
       }
       
+      const { success, circuit } = await runOnDaemonOrLocally<RouteResult>(
+        'start',
+        { profile },
+        async () => ({
+          success: await routeManager.createRoute(profile),
+          circuit: routeManager.getActiveCircuit()
+        })
+      );
+      
       if (success) {
-        const circuit = routeManager.getActiveCircuit();
-        
         if (isSimpleMode) {
           spinner.succeed('VPN connection established successfully');
         } else {
@@ -169,119 +452,242 @@ program
         // Show connection information
         if (circuit) {
           if (isSimpleMode) {
-            console.log('\nVPN Connection Information:');
+            print('\nVPN Connection Information:');
           } else {
-            console.log('\nCircuit Information:');
+            print('\nCircuit Information:');
           }
           
-          console.log(`  - ID: ${circuit.id}`);
-          console.log(`  - Created at: ${circuit.createdAt.toLocaleString()}`);
-          console.log(`  - Expires at: ${circuit.expiresAt.toLocaleString()}`);
+          print(`  - ID: ${circuit.id}`);
+          print(`  - Created at: ${circuit.createdAt.toLocaleString()}`);
+          print(`  - Expires at: ${circuit.expiresAt.toLocaleString()}`);
           
           // Show country information
           if (isSimpleMode && circuit.nodes.length > 0) {
             const node = circuit.nodes[0];
-            console.log(`\nCountry: ${node.config.country || 'Unknown'}`);
-            console.log(`Endpoint: ${node.config.endpoint}`);
+            const requested = countries && countries.join('|').includes('|') ? ` (requested ${countries.join('|')})` : '';
+            print(`\nCountry: ${node.config.country || 'Unknown'}${requested}`);
+            print(`Endpoint: ${node.config.endpoint}`);
           } else {
             // Show node information for each hop in circuit mode
-            console.log('\nCircuit Path:');
+            print('\nCircuit Path:');
             circuit.nodes.sort((a, b) => a.index - b.index).forEach((node, idx) => {
-              console.log(`  - Hop ${idx + 1}: ${node.config.country || 'Unknown'} (${node.config.endpoint})`);
+              print(`  - Hop ${idx + 1}: ${node.config.country || 'Unknown'} (${node.config.endpoint})`);
             });
             
             // Show exit node information
             const exitConfig = circuitBuilder.getExitNodeConfig(circuit);
-            console.log('\nExit Node:');
-            console.log(`  - Country: ${exitConfig.country || 'Unknown'}`);
-            console.log(`  - Endpoint: ${exitConfig.endpoint}`);
-          }
-          
-          // Show the new public IP
-          try {
-            const ip = await wireguardManager.getCurrentPublicIp();
-            console.log(`\nNew Public IP: ${ip}`);
-          } catch (err) {
-            console.log('\nNew Public IP: Unable to determine');
+            print('\nExit Node:');
+            print(`  - Country: ${exitConfig.country || 'Unknown'}`);
+            print(`  - Endpoint: ${exitConfig.endpoint}`);
           }
         }
+        
+        // Show the new public IP
+        const publicIp = await printPublicIp('New Public IP', getState().originalIp);
+        printJson({ mode: profile.mode, profile: profile.name, circuit: serializeCircuit(circuit), publicIp });
       } else {
-        if (isSimpleMode) {
-          spinner.fail('Failed to establish VPN connection');
-        } else {
-          spinner.fail('Failed to create routing circuit');
-        }
-        process.exit(1);
+        fail(EXIT_CODES.FAILURE, isSimpleMode ? 'Failed to establish VPN connection' : 'Failed to create routing circuit', spinner);
       }
     } catch (error) {
-      spinner.fail(`Error: ${(error as Error).message}`);
-      process.exit(1);
+      failOnError(error, spinner);
     }
   });
 
+/**
+ * Connect to a single VPN server, with a fresh lease or an imported config file
+ * @param options connect / import options
+ */
+async function runConnect(options: Record<string, any>): Promise<void> {
+  const spinner = createSpinner(options.config
+    ? `Connecting with ${options.config}...`
+    : `Connecting to VPN server in ${options.country}...`);
+  
+  try {
+    if (options.dryRun) {
+      if (options.config) {
+        fail(EXIT_CODES.USAGE, '--dry-run cannot be combined with --config', spinner);
+      }
+      const plan = await routeManager.planRoute({
+        mode: 'simple',
+        countries: [options.country],
+        splitTunnel: getSplitTunnelOptions(options) || undefined
+      });
+      spinner.succeed('Lease fetched');
+      printDryRun(plan);
+      return;
+    }
+    
+    // Check if WireGuard is installed
+    requireWireGuard(spinner);
+    
+    // Load the config file first, a bad file must not take the current route down
+    let imported: WireGuardConfig | undefined;
+    if (options.config) {
+      if (options.country && options.country.includes('|')) {
+        fail(EXIT_CODES.USAGE, 'A config file has a single country, a fallback chain cannot be used with --config', spinner);
+      }
+      const country = options.country && options.country !== 'any' ? options.country : undefined;
+      imported = await loadImportedConfig(options.config, options.expires, country, spinner);
+    }
+    
+    // Get original IP
+    let originalIp: string | undefined;
+    try {
+      originalIp = await wireguardManager.getCurrentPublicIp();
+      spinner.info(`Original public IP: ${originalIp}`);
+    } catch (err) {
+      spinner.warn('Could not determine original IP');
+    }
+    
+    // Create direct connection
+    spinner.text = imported
+      ? `Connecting to ${imported.endpoint}...`
+      : `Connecting to VPN server in ${options.country}...`;
+    const splitTunnel = getSplitTunnelOptions(options);
+    const { success, circuit } = imported
+      ? await runOnDaemonOrLocally<RouteResult>(
+        'import',
+        { config: imported, splitTunnel },
+        async () => ({
+          success: await routeManager.connectWithConfig(imported as WireGuardConfig, splitTunnel),
+          circuit: routeManager.getActiveCircuit()
+        })
+      )
+      : await runOnDaemonOrLocally<RouteResult>(
+        'connect',
+        { country: options.country, splitTunnel },
+        async () => ({
+          success: await routeManager.createDirectConnection(options.country, splitTunnel),
+          circuit: routeManager.getActiveCircuit()
+        })
+      );
+    
+    if (success) {
+      spinner.succeed('VPN connection established successfully');
+      
+      // Show connection information
+      if (circuit && circuit.nodes.length > 0) {
+        const config = circuit.nodes[0].config;
+        const requested = !imported && options.country.includes('|') ? ` (requested ${options.country})` : '';
+        print('\nVPN Connection:');
+        print(`  - Country: ${config.country || 'Unknown'}${requested}`);
+        print(`  - Endpoint: ${config.endpoint}`);
+        print(`  - Expires at: ${new Date(config.expiresAt).toLocaleString()}${config.imported ? ' (imported, not renewed)' : ''}`);
+      }
+      
+      // Show the new IP
+      const publicIp = await printPublicIp('New Public IP', originalIp || getState().originalIp);
+      printJson({ requestedCountry: imported ? undefined : options.country, circuit: serializeCircuit(circuit), publicIp });
+    } else {
+      fail(EXIT_CODES.FAILURE, 'Failed to establish VPN connection', spinner);
+    }
+  } catch (error) {
+    failOnError(error, spinner);
+  }
+}
+
 // Direct connect command - simple direct connection to a country
 program
   .command('connect')
   .description('Connect directly to a VPN server in a specific country')
-  .option('-c, --country <code>', 'Country code to connect to', 'any')
-  .action(async (options) => {
-    const spinner = ora(`Connecting to VPN server in ${options.country}...`).start();
+  .option('-c, --country <code>', 'Country code, or a fallback chain such as FR,BE,CH,any', parseCountryOption, 'any')
+  .option('--config <file>', 'Connect with an existing WireGuard config file instead of a new lease')
+  .option('--expires <when>', 'Expiry of the --config lease, in minutes from now or as a date', parseExpiry)
+  .option('--include <list>', 'Comma-separated CIDRs, IPs or domains to route through the tunnel (everything else bypasses it)')
+  .option('--exclude <list>', 'Comma-separated CIDRs, IPs or domains that bypass the tunnel')
+  .option('--dry-run', 'Fetch a lease and show the config and commands without changing anything')
+  .action(runConnect);
+
+// Import command - connect with an existing WireGuard config file
+program
+  .command('import')
+  .description('Connect with an existing WireGuard config file, managed like a fetched lease')
+  .argument('<file>', 'WireGuard .conf file')
+  .option('-c, --country <code>', 'Country of the endpoint (looked up in the GeoIP database if omitted)')
+  .option('--expires <when>', 'Expiry of the lease, in minutes from now or as a date', parseExpiry)
+  .option('--include <list>', 'Comma-separated CIDRs, IPs or domains to route through the tunnel (everything else bypasses it)')
+  .option('--exclude <list>', 'Comma-separated CIDRs, IPs or domains that bypass the tunnel')
+  .action((file: string, options) => runConnect({ ...options, config: file }));
+
+// Exec command - run a single command through the VPN without touching the host routes
+program
+  .command('exec')
+  .description('Run a single command inside a network namespace routed through a VPN lease')
+  .argument('<command...>', 'Command to run, after --')
+  .option('-c, --country <code>', 'Country code, or a fallback chain such as FR,BE,CH,any', parseCountryOption, 'any')
+  .option('--lease <minutes>', 'Lease duration in minutes', (value: string) => parseInt(value, 10))
+  .action(async (command: string[], options) => {
+    const spinner = createSpinner(`Getting a VPN lease in ${options.country}...`);
+    let exitCode = 1;
     
     try {
-      // Check if WireGuard is installed
-      if (!wireguardManager.isWireGuardInstalled()) {
-        spinner.fail('WireGuard is not installed on your system');
-        console.log('Please install WireGuard:');
-        console.log('  - Mac: brew install wireguard-tools');
-        console.log('  - Linux: sudo apt install -y wireguard wireguard-tools resolvconf');
-        process.exit(1);
-      }
+      requireWireGuard(spinner);
       
-      // Get original IP
-      let originalIp = 'unknown';
-      try {
-        originalIp = await wireguardManager.getCurrentPublicIp();
-        spinner.info(`Original public IP: ${originalIp}`);
-      } catch (err) {
-        spinner.warn('Could not determine original IP');
-      }
+      // Get a lease for the namespace only, the host keeps its own routes
+      const leaseMinutes = options.lease || getConfig().defaultLeaseDuration;
+      const configResponse = await tpnClient.getConfigFromChain(parseCountryChain(options.country), leaseMinutes);
+      const config = wireguardManager.parseTpnResponse(configResponse, configResponse.country || 'any');
       
-      // Create direct connection
-      spinner.text = `Connecting to VPN server in ${options.country}...`;
-      const success = await routeManager.createDirectConnection(options.country);
+      spinner.succeed(`Got a lease in ${config.country || 'Unknown'} (${config.endpoint}), expires at ${new Date(config.expiresAt).toLocaleString()}`);
       
-      if (success) {
-        spinner.succeed('VPN connection established successfully');
-        
-        // Show connection information
-        const circuit = routeManager.getActiveCircuit();
-        
-        if (circuit && circuit.nodes.length > 0) {
-          const config = circuit.nodes[0].config;
-          console.log('\nVPN Connection:');
-          console.log(`  - Country: ${config.country || 'Unknown'}`);
-          console.log(`  - Endpoint: ${config.endpoint}`);
-          console.log(`  - Expires at: ${new Date(config.expiresAt).toLocaleString()}`);
-          
-          // Show the new IP
-          try {
-            const newIp = await wireguardManager.getCurrentPublicIp();
-            console.log(`\nNew Public IP: ${newIp}`);
-            
-            if (newIp === originalIp) {
-              console.log('\nWARNING: Your IP address has not changed. The VPN might not be working properly.');
-            }
-          } catch (err) {
-            console.log('\nNew Public IP: Unable to determine');
-          }
-        }
+      exitCode = await namespaceRunner.run(config, command);
+      printJson({
+        exitCode,
+        lease: { country: config.country, endpoint: config.endpoint, expiresAt: new Date(config.expiresAt).toISOString() }
+      });
+    } catch (error) {
+      failOnError(error, spinner);
+    }
+    
+    // exec reprend le code de sortie de la commande lancée
+    process.exit(exitCode);
+  });
+
+// Export command - write a lease as a WireGuard file for another device
+program
+  .command('export')
+  .description('Get a lease as a WireGuard config file or QR code, to import on another device')
+  .option('-c, --country <code>', 'Country code, or a fallback chain such as FR,BE,CH,any', parseCountryOption, 'any')
+  .option('--lease <minutes>', 'Lease duration in minutes', (value: string) => parseInt(value, 10))
+  .option('-o, --output <file>', 'Write the config to a file (mode 0600) instead of stdout')
+  .option('--qr', 'Show the config as a QR code in the terminal')
+  .option('--format <format>', 'Output format: conf or json', 'conf')
+  .action(async (options) => {
+    if (options.format !== 'conf' && options.format !== 'json') {
+      fail(EXIT_CODES.USAGE, `Unknown format '${options.format}', expected conf or json`);
+    }
+    
+    // Without --output the config goes to stdout, log lines would end up in it
+    if (!options.output) {
+      logger.setSilent(true);
+    }
+    
+    const spinner = createSpinner(`Getting a VPN lease in ${options.country}...`);
+    
+    try {
+      const leaseMinutes = options.lease || getConfig().defaultLeaseDuration;
+      const { config, text } = await wireguardManager.getStandaloneConfig(options.country, leaseMinutes);
+      const exported = { ...config, raw: text };
+      const contents = options.format === 'json' ? JSON.stringify(exported, null, 2) + '\n' : text;
+      
+      if (options.output) {
+        await wireguardManager.writeConfigFile(options.output, contents);
+        spinner.succeed(`Saved a lease in ${config.country || 'Unknown'} (${config.endpoint}) to ${options.output}, expires at ${new Date(config.expiresAt).toLocaleString()}`);
       } else {
-        spinner.fail('Failed to establish VPN connection');
-        process.exit(1);
+        spinner.stop();
+        if (!isJsonMode()) {
+          process.stdout.write(contents);
+        }
+      }
+      
+      if (options.qr && !isJsonMode()) {
+        // Les applications mobiles WireGuard importent le texte de la config, jamais le JSON
+        qrcode.generate(text, { small: true }, code => print(`\n${code}`));
       }
+      
+      printJson({ path: options.output, config: exported });
     } catch (error) {
-      spinner.fail(`Error: ${(error as Error).message}`);
-      process.exit(1);
+      failOnError(error, spinner);
     }
   });
 
@@ -289,81 +695,82 @@ program
 program
   .command('stop')
   .description('Stop the current VPN connection')
-  .action(async () => {
-    const spinner = ora('Stopping VPN connection...').start();
+  .option('--dry-run', 'Show the commands without changing anything')
+  .action(async (options) => {
+    const spinner = createSpinner('Stopping VPN connection...');
     
     try {
-      const success = await routeManager.stopRoute();
+      if (options.dryRun) {
+        spinner.stop();
+        printDryRun(routeManager.planStop());
+        return;
+      }
+      
+      const { success } = await runOnDaemonOrLocally<{ success: boolean }>('stop', {}, async () => {
+        // Pick up the route created by a previous invocation
+        routeManager.restoreState();
+        return { success: await routeManager.stopRoute() };
+      });
       
       if (success) {
         spinner.succeed('VPN connection stopped');
         
         // Show original IP
-        try {
-          const ip = await wireguardManager.getCurrentPublicIp();
-          console.log(`\nCurrent Public IP: ${ip}`);
-        } catch (err) {
-          console.log('\nCurrent Public IP: Unable to determine');
-        }
+        const publicIp = await printPublicIp('Current Public IP');
+        printJson({ publicIp });
       } else {
-        spinner.fail('Failed to stop VPN connection');
-        process.exit(1);
+        fail(EXIT_CODES.FAILURE, 'Failed to stop VPN connection', spinner);
       }
     } catch (error) {
-      spinner.fail(`Error: ${(error as Error).message}`);
-      process.exit(1);
+      failOnError(error, spinner);
     }
   });
 
   program
   .command('reconnect')
   .description('Reconnect to VPN (can be used to refresh or change country)')
-  .option('-c, --country <code>', 'Country code to connect to (optional)')
+  .option('-c, --country <code>', 'Country code, or a fallback chain such as FR,BE,CH,any (optional)', parseCountryOption)
   .action(async (options) => {
-    const spinner = ora('Reconnecting to VPN...').start();
+    const spinner = createSpinner('Reconnecting to VPN...');
     
     try {
-      // Arrêter toute connexion active
-      await routeManager.stopRoute();
-      
-      // Créer une nouvelle connexion
-      let success;
       if (options.country) {
         spinner.text = `Connecting to VPN server in ${options.country}...`;
-        success = await routeManager.createDirectConnection(options.country);
-      } else {
-        spinner.text = 'Connecting to random VPN server...';
-        success = await routeManager.createDirectConnection('any');
       }
       
+      // Sans pays explicite, la route précédente est reconstruite avec les mêmes pays
+      const { success, circuit } = await runOnDaemonOrLocally<RouteResult>(
+        'reconnect',
+        { country: options.country },
+        async () => {
+          routeManager.restoreState();
+          return {
+            success: await routeManager.reconnect(options.country),
+            circuit: routeManager.getActiveCircuit()
+          };
+        }
+      );
+      
       if (success) {
         spinner.succeed('VPN connection established successfully');
         
         // Show connection information
-        const circuit = routeManager.getActiveCircuit();
-        
         if (circuit && circuit.nodes.length > 0) {
           const config = circuit.nodes[0].config;
-          console.log('\nVPN Connection:');
-          console.log(`  - Country: ${config.country || 'Unknown'}`);
-          console.log(`  - Endpoint: ${config.endpoint}`);
-          console.log(`  - Expires at: ${new Date(config.expiresAt).toLocaleString()}`);
-          
-          // Show the new IP
-          try {
-            const newIp = await wireguardManager.getCurrentPublicIp();
-            console.log(`\nNew Public IP: ${newIp}`);
-          } catch (err) {
-            console.log('\nNew Public IP: Unable to determine');
-          }
+          print('\nVPN Connection:');
+          print(`  - Country: ${config.country || 'Unknown'}`);
+          print(`  - Endpoint: ${config.endpoint}`);
+          print(`  - Expires at: ${new Date(config.expiresAt).toLocaleString()}`);
         }
+        
+        // Show the new IP
+        const publicIp = await printPublicIp('New Public IP', getState().originalIp);
+        printJson({ circuit: serializeCircuit(circuit), publicIp });
       } else {
-        spinner.fail('Failed to establish VPN connection');
-        process.exit(1);
+        fail(EXIT_CODES.FAILURE, 'Failed to establish VPN connection', spinner);
       }
     } catch (error) {
-      spinner.fail(`Error: ${(error as Error).message}`);
-      process.exit(1);
+      failOnError(error, spinner);
     }
   });
 
@@ -373,81 +780,177 @@ program
   .description('Show the current VPN status')
   .action(async () => {
     try {
-      // Vérifier directement si une interface WireGuard est active
-      const isVpnActive = wireguardManager.isVpnActive();
+      const status = await runOnDaemonOrLocally<RouteStatus>('status', {}, async () => {
+        // Récupérer la route enregistrée par une invocation précédente
+        routeManager.restoreState();
+        return routeManager.getStatus();
+      });
+      const { interfaceInfo, circuit } = status;
       
-      if (isVpnActive) {
-        console.log('VPN Status: Active');
-        
-        // Obtenir des informations sur l'interface active
-        const interfaceInfo = await wireguardManager.getActiveInterfaceInfo();
+      if (status.active) {
+        print('VPN Status: Active');
         
         if (interfaceInfo) {
-          console.log('\nWireGuard Interface:');
-          console.log(`  - Name: ${interfaceInfo.name}`);
-          console.log(`  - Endpoint: ${interfaceInfo.endpoint || 'Unknown'}`);
+          print('\nWireGuard Interface:');
+          print(`  - Name: ${interfaceInfo.name}`);
+          print(`  - Endpoint: ${interfaceInfo.endpoint || 'Unknown'}`);
           
           if (interfaceInfo.publicKey) {
-            console.log(`  - Peer Public Key: ${interfaceInfo.publicKey}`);
+            print(`  - Peer Public Key: ${interfaceInfo.publicKey}`);
           }
           
           if (interfaceInfo.allowedIPs) {
-            console.log(`  - Allowed IPs: ${interfaceInfo.allowedIPs}`);
+            print(`  - Allowed IPs: ${interfaceInfo.allowedIPs}`);
           }
           
-          // Tenter d'obtenir le pays si le circuit est en mémoire
-          const circuit = routeManager.getActiveCircuit();
+          // Tenter d'obtenir le pays si le circuit est connu
           if (circuit && circuit.nodes.length > 0) {
             const node = circuit.nodes[0];
             if (node.config.country) {
-              console.log(`  - Country: ${node.config.country}`);
+              const verified = node.config.verifiedCountry ? ` (GeoIP: ${node.config.verifiedCountry})` : '';
+              print(`  - Country: ${node.config.country}${verified}`);
             }
             
             if (circuit.expiresAt) {
-              console.log(`  - Expires at: ${circuit.expiresAt.toLocaleString()}`);
+              print(`  - Expires at: ${circuit.expiresAt.toLocaleString()}`);
               
               // Calculer le temps restant
               const timeRemaining = circuit.expiresAt.getTime() - Date.now();
               if (timeRemaining > 0) {
-                console.log(`  - Time remaining: ${Math.floor(timeRemaining / 60000)} minutes`);
+                print(`  - Time remaining: ${Math.floor(timeRemaining / 60000)} minutes`);
               } else {
-                console.log('  - Expired (connection may stop working soon)');
+                print('  - Expired (connection may stop working soon)');
               }
             }
           }
         }
         
         // Afficher le mode (direct ou circuit)
-        const circuit = routeManager.getActiveCircuit();
         if (circuit) {
           if (circuit.nodes.length === 1) {
-            console.log('\nConnection Type: Direct VPN');
+            print('\nConnection Type: Direct VPN');
           } else if (circuit.nodes.length > 1) {
-            console.log(`\nConnection Type: Circuit (${circuit.nodes.length} hops)`);
+            print(`\nConnection Type: Circuit (${circuit.nodes.length} hops)`);
             
-            // Afficher le chemin du circuit
-            console.log('\nCircuit Path:');
+            // Afficher le chemin du circuit, avec l'interface de chaque couche
+            print('\nCircuit Path:');
             circuit.nodes.sort((a, b) => a.index - b.index).forEach((node, idx) => {
-              console.log(`  - Hop ${idx + 1}: ${node.config.country || 'Unknown'} (${node.config.endpoint})`);
+              const via = node.interfaceName ? ` via ${node.interfaceName}` : '';
+              const verified = node.config.verifiedCountry ? ` [GeoIP: ${node.config.verifiedCountry}]` : '';
+              const guard = node.guard ? ' [guard]' : '';
+              print(`  - Hop ${idx + 1}: ${node.config.country || 'Unknown'}${verified}${guard} (${node.config.endpoint})${via}`);
             });
           }
         } else {
-          console.log('\nConnection Type: Direct WireGuard connection');
+          print('\nConnection Type: Direct WireGuard connection');
+        }
+        
+        if (status.profile) {
+          print(`Profile: ${status.profile}`);
         }
       } else {
-        console.log('VPN Status: Not active');
+        print('VPN Status: Not active');
+      }
+      
+      if (status.guard) {
+        print(`\nGuard: ${formatGuard(status.guard)}`);
+      }
+      
+      // Afficher l'IP d'origine enregistrée à la connexion
+      if (status.active && status.originalIp) {
+        print(`\nOriginal Public IP: ${status.originalIp}`);
       }
       
-      // Toujours afficher l'IP actuelle
-      try {
-        const ip = await wireguardManager.getCurrentPublicIp();
-        console.log(`\nCurrent Public IP: ${ip}`);
-      } catch (err) {
-        console.log('\nCurrent Public IP: Unable to determine');
+      if (status.killSwitch) {
+        print('\nKill Switch: Active (non-tunnel traffic is blocked)');
+      }
+      
+      // Afficher le dernier contrôle de santé (daemon uniquement)
+      if (status.health) {
+        const health = status.health.healthy ? 'Healthy' : `Degraded (${status.health.reason})`;
+        const handshake = status.health.handshakeAge !== undefined ? `, handshake ${status.health.handshakeAge}s ago` : '';
+        print(`\nTunnel Health: ${health}${handshake}, checked at ${new Date(status.health.checkedAt).toLocaleTimeString()}`);
+      }
+      if (status.routeLoss) {
+        const { lostAt, reason, attempts, retryAt } = status.routeLoss;
+        print(`\nRoute Lost: since ${new Date(lostAt).toLocaleTimeString()}, ${reason} (${attempts} failover attempts), next try at ${new Date(retryAt).toLocaleTimeString()}`);
+      }
+      
+      // Afficher les règles de split tunneling et les préfixes routés
+      if (status.splitTunnel) {
+        print('\nSplit Tunnel:');
+        if (status.splitTunnel.include.length > 0) {
+          print(`  - Include: ${status.splitTunnel.include.join(', ')}`);
+        }
+        if (status.splitTunnel.exclude.length > 0) {
+          print(`  - Exclude: ${status.splitTunnel.exclude.join(', ')}`);
+        }
+        if (status.routes) {
+          print(`  - Routed through the tunnel (${status.routes.length} prefixes):`);
+          status.routes.forEach(route => print(`      ${route}`));
+        }
+      }
+      
+      // Toujours afficher l'IP actuelle, comparée à l'IP d'origine si un tunnel est actif
+      const publicIp = await printPublicIp('Current Public IP', status.active ? status.originalIp : undefined);
+      printJson({ ...status, circuit: serializeCircuit(circuit), publicIp });
+    } catch (error) {
+      failOnError(error);
+    }
+  });
+
+// Leak test command - checks the active route for DNS, IPv6 and IP leaks
+program
+  .command('leaktest')
+  .description(`Check the active route for DNS, IPv6 and public IP leaks (exits with ${EXIT_CODES.LEAK_DETECTED} on any leak)`)
+  .action(async () => {
+    try {
+      routeManager.restoreState();
+      const { activeConfig, interfaces, originalIp } = getState();
+      
+      if (!activeConfig || interfaces.length === 0) {
+        fail(EXIT_CODES.NO_ROUTE, 'No active VPN route to test');
+      }
+      
+      const report = await leakTest.run(activeConfig, interfaces, originalIp);
+      
+      print(`\nLeak Test (${report.interfaceName}):`);
+      for (const check of report.checks) {
+        print(`  [${check.status.toUpperCase()}] ${check.name}: ${check.detail}`);
+      }
+      print(report.passed ? '\nNo leak detected' : '\nLEAK DETECTED');
+      printJson({ ...report });
+      
+      process.exit(report.passed ? EXIT_CODES.SUCCESS : EXIT_CODES.LEAK_DETECTED);
+    } catch (error) {
+      failOnError(error);
+    }
+  });
+
+// Daemon command - keeps the route alive and serves the control socket
+program
+  .command('daemon')
+  .description('Run in the foreground, renewing leases and serving other commands over a control socket')
+  .action(async () => {
+    try {
+      // Adopt a route created before the daemon started
+      if (routeManager.restoreState(true)) {
+        logger.info('Resumed the active route from session state');
       }
+      
+      await controlServer.start();
+      logger.success(`Daemon listening on ${getSocketPath()}`);
+      printJson({ socket: getSocketPath(), pid: process.pid });
+      
+      const shutdown = async () => {
+        logger.info('Shutting down daemon, the active route stays up but leases will no longer be renewed');
+        await controlServer.stop();
+        process.exit(0);
+      };
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
     } catch (error) {
-      console.error(`Error: ${(error as Error).message}`);
-      process.exit(1);
+      fail(EXIT_CODES.FAILURE, `Daemon failed to start: ${(error as Error).message}`);
     }
   });
 
@@ -456,6 +959,10 @@ program
   .command('configure')
   .description('Configure the application settings')
   .action(async () => {
+    if (isJsonMode()) {
+      fail(EXIT_CODES.USAGE, 'configure is interactive and not available with --json');
+    }
+    
     try {
       const config = getConfig();
       
@@ -475,9 +982,9 @@ program
         {
           type: 'input',
           name: 'preferredCountries',
-          message: 'Preferred countries (comma-separated country codes):',
+          message: 'Preferred countries (comma-separated country codes, "US|CA" for a fallback chain):',
           default: config.preferredCountries.join(','),
-          filter: (input: string) => input ? input.split(',').map((c: any) => c.trim().toUpperCase()) : [],
+          filter: (input: string) => parseList(input).map(entry => parseCountryChain(entry).join('|')),
         },
         {
           type: 'list',
@@ -489,10 +996,274 @@ program
       ]);
       
       updateConfig(answers);
-      console.log('Configuration updated successfully');
+      print('Configuration updated successfully');
+    } catch (error) {
+      failOnError(error);
+    }
+  });
+
+/**
+ * Format a setting value for human-readable output
+ * @param value Setting value
+ * @returns Scalars as is, lists and objects as JSON
+ */
+function formatConfigValue(value: unknown): string {
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+}
+
+// Config commands - non-interactive access to single settings
+const configCommand = program.command('config')
+  .description('Read and change single settings (dotted keys, e.g. healthCheck.interval)');
+
+// Get a setting
+configCommand
+  .command('get <key>')
+  .description('Print the value of a setting')
+  .action((key: string) => {
+    try {
+      const value = getConfigValue(key);
+      print(typeof value === 'object' && value !== null ? JSON.stringify(value, null, 2) : String(value));
+      printJson({ key, value, env: getEnvOverrides()[key] });
+    } catch (error) {
+      fail(EXIT_CODES.USAGE, (error as Error).message);
+    }
+  });
+
+// Set a setting
+configCommand
+  .command('set <key> <value>')
+  .description('Change a setting (lists are comma-separated or JSON)')
+  .action((key: string, text: string) => {
+    try {
+      const value = setConfigValue(key, text);
+      print(`${key} = ${formatConfigValue(value)}`);
+      
+      const env = getEnvOverrides()[key];
+      if (env) {
+        print(`Note: ${env} is set and overrides this value in the current environment`);
+      }
+      printJson({ key, value, env });
+    } catch (error) {
+      fail(EXIT_CODES.USAGE, (error as Error).message);
+    }
+  });
+
+// Unset a setting
+configCommand
+  .command('unset <key>')
+  .description('Restore the default value of a setting')
+  .action((key: string) => {
+    try {
+      const value = unsetConfigValue(key);
+      print(`${key} = ${formatConfigValue(value)} (default)`);
+      printJson({ key, value });
+    } catch (error) {
+      fail(EXIT_CODES.USAGE, (error as Error).message);
+    }
+  });
+
+// List settings
+configCommand
+  .command('list')
+  .description('List every setting, marking environment overrides')
+  .action(() => {
+    // An invalid TPN_ROUTER_* value was already reported as a usage error before the action
+    const overrides = getEnvOverrides();
+    const settings = listKeys().map(key => ({ key, value: getConfigValue(key), env: overrides[key] }));
+    
+    settings.forEach(({ key, value, env }) => {
+      print(`${key} = ${formatConfigValue(value)}${env ? ` (from ${env})` : ''}`);
+    });
+    printJson({ settings });
+  });
+
+// Reset settings
+configCommand
+  .command('reset')
+  .description('Restore every setting to its default, validators included')
+  .action(() => {
+    try {
+      resetConfig();
+      print('Configuration reset to defaults');
+      printJson({});
+    } catch (error) {
+      failOnError(error);
+    }
+  });
+
+/**
+ * Print the settings of a profile
+ * @param profile Profile to describe
+ * @param isDefault Whether it is the default profile
+ */
+function printProfile(profile: RouteProfile, isDefault: boolean): void {
+  const { defaultCircuitLength, defaultLeaseDuration } = getConfig();
+  print(`\n${profile.name}${isDefault ? ' (default)' : ''}`);
+  print(`  - Mode: ${profile.mode}` + (profile.mode === 'circuit' ? `, ${profile.length || defaultCircuitLength} hops` : ''));
+  print(`  - Countries: ${profile.countries && profile.countries.length > 0 ? profile.countries.join(', ') : 'preferred countries'}`);
+  print(`  - Lease duration: ${profile.leaseDuration || defaultLeaseDuration} minutes`);
+  if (profile.splitTunnel) {
+    print(`  - Split tunnel: include ${profile.splitTunnel.include.join(', ') || 'everything'}` +
+      (profile.splitTunnel.exclude.length > 0 ? `, exclude ${profile.splitTunnel.exclude.join(', ')}` : ''));
+  }
+  print(`  - Validators: ${profile.validators && profile.validators.length > 0 ? profile.validators.join(', ') : 'all'}`);
+}
+
+// Profile commands - named sets of start settings
+const profileCommand = program.command('profile')
+  .description('Manage named connection profiles');
+
+// Create a profile
+profileCommand
+  .command('create <name>')
+  .description('Save a profile for start --profile')
+  .option('-m, --mode <mode>', 'Connection mode: simple or circuit', 'simple')
+  .option('-l, --length <number>', 'Number of hops in circuit mode', parseInt)
+  .option('-c, --countries <list>', 'Comma-separated country codes, one per hop in circuit mode; "US|CA" tries US, then CA', parseHopCountries)
+  .option('--lease <minutes>', 'Lease duration in minutes', parseInt)
+  .option('--include <list>', 'Comma-separated CIDRs, IPs or domains to route through the tunnel')
+  .option('--exclude <list>', 'Comma-separated CIDRs, IPs or domains that bypass the tunnel')
+  .option('--validators <list>', 'Comma-separated ip:port of the validators to use')
+  .option('--default', 'Use this profile when start is run without --profile')
+  .option('-f, --force', 'Replace an existing profile with the same name')
+  .action((name: string, options) => {
+    if (getProfile(name) && !options.force) {
+      fail(EXIT_CODES.USAGE, `Profile '${name}' already exists, use --force to replace it`);
+    }
+    
+    const profile: RouteProfile = { name, mode: options.mode };
+    if (options.length !== undefined) profile.length = options.length;
+    if (options.countries !== undefined) profile.countries = options.countries;
+    if (options.lease !== undefined) profile.leaseDuration = options.lease;
+    if (options.include !== undefined || options.exclude !== undefined) {
+      profile.splitTunnel = { include: parseList(options.include || ''), exclude: parseList(options.exclude || '') };
+    }
+    if (options.validators !== undefined) profile.validators = parseList(options.validators);
+    
+    try {
+      saveProfile(profile);
+      if (options.default) {
+        setDefaultProfile(name);
+      }
+    } catch (error) {
+      fail(EXIT_CODES.USAGE, (error as Error).message);
+    }
+    
+    print(`Profile '${name}' saved${options.default ? ' as the default profile' : ''}`);
+    printJson({ profile, default: Boolean(options.default) });
+  });
+
+// List profiles
+profileCommand
+  .command('list')
+  .description('List the saved profiles')
+  .action(() => {
+    const profiles = listProfiles();
+    const defaultName = getDefaultProfile()?.name;
+    
+    if (profiles.length === 0) {
+      print('No profiles saved, create one with: tpn-router profile create <name>');
+    }
+    profiles.forEach(profile => printProfile(profile, profile.name === defaultName));
+    printJson({ profiles, defaultProfile: defaultName || null });
+  });
+
+// Show a profile
+profileCommand
+  .command('show <name>')
+  .description('Show the settings of a profile')
+  .action((name: string) => {
+    const profile = getProfile(name);
+    if (!profile) {
+      fail(EXIT_CODES.USAGE, `No profile named '${name}', see 'tpn-router profile list'`);
+    }
+    
+    const isDefault = getDefaultProfile()?.name === name;
+    printProfile(profile, isDefault);
+    printJson({ profile, default: isDefault });
+  });
+
+// Delete a profile
+profileCommand
+  .command('delete <name>')
+  .description('Delete a profile')
+  .action((name: string) => {
+    if (!deleteProfile(name)) {
+      fail(EXIT_CODES.USAGE, `No profile named '${name}', see 'tpn-router profile list'`);
+    }
+    print(`Profile '${name}' deleted`);
+    printJson({ name });
+  });
+
+// Choose the default profile
+profileCommand
+  .command('default [name]')
+  .description('Set the profile start uses without --profile, or show it')
+  .option('--unset', 'Go back to the configured settings')
+  .action((name: string | undefined, options) => {
+    try {
+      if (options.unset) {
+        setDefaultProfile(null);
+      } else if (name) {
+        setDefaultProfile(name);
+      }
     } catch (error) {
-      console.error(`Error: ${(error as Error).message}`);
-      process.exit(1);
+      fail(EXIT_CODES.USAGE, (error as Error).message);
+    }
+    
+    const defaultName = getDefaultProfile()?.name || null;
+    print(defaultName ? `Default profile: ${defaultName}` : 'No default profile, start uses the configured settings');
+    printJson({ defaultProfile: defaultName });
+  });
+
+/**
+ * Describe a guard on one line
+ * @param guard Guard to describe
+ */
+function formatGuard(guard: GuardNode): string {
+  const failures = guard.failures > 0 ? `, ${guard.failures}/${getConfig().guard.maxFailures} failures` : '';
+  return `${guard.validator} in ${guard.country}, rotated on ${new Date(guard.rotateAt).toLocaleString()}${failures}`;
+}
+
+// Guard commands - persistent entry node of circuits
+const guardCommand = program.command('guard')
+  .description('Manage the persistent entry node (guard) of circuits');
+
+// Show the guard
+guardCommand
+  .command('show')
+  .description('Show the current guard')
+  .action(() => {
+    const guard = guardManager.getGuard();
+    const enabled = guardManager.isEnabled();
+    
+    print(`Guard mode: ${enabled ? 'enabled' : 'disabled (tpn-router config set guard.enabled true)'}`);
+    if (guard) {
+      print(`Guard: ${formatGuard(guard)}`);
+      print(`  - Chosen on: ${new Date(guard.chosenAt).toLocaleString()}`);
+    } else {
+      print('No guard chosen yet, the next circuit chooses one');
+    }
+    printJson({ enabled, guard });
+  });
+
+// Rotate the guard
+guardCommand
+  .command('rotate')
+  .description('Replace the guard with another validator, used from the next circuit')
+  .action(async () => {
+    const spinner = createSpinner('Choosing a new guard...');
+    try {
+      const previous = guardManager.getGuard();
+      const guard = await guardManager.rotate();
+      spinner.succeed(`New guard: ${formatGuard(guard)}`);
+      
+      if (!guardManager.isEnabled()) {
+        print('Guard mode is disabled, enable it with: tpn-router config set guard.enabled true');
+      }
+      printJson({ previous, guard });
+    } catch (error) {
+      failOnError(error, spinner);
     }
   });
 
@@ -507,14 +1278,30 @@ validatorCommand
   .action(() => {
     const { validators } = getConfig();
     
-    console.log('\nConfigured Validators:');
+    print('\nConfigured Validators:');
     if (validators.length === 0) {
-      console.log('  No validators configured');
+      print('  No validators configured');
     } else {
-      validators.forEach((validator: any, index: any) => {
-        console.log(`  ${index + 1}. ${validator.ip}:${validator.port} - ${validator.isActive ? 'Active' : 'Inactive'}`);
+      validators.forEach((validator: ValidatorEndpoint, index: number) => {
+        print(`  ${index + 1}. ${validator.ip}:${validator.port} - ${validator.isActive ? 'Active' : 'Inactive'}`);
+        
+        const stats = validator.stats;
+        if (!stats) {
+          print('     No requests recorded yet');
+          return;
+        }
+        print(`     Score: ${getValidatorScore(validator).toFixed(2)}, ${stats.successCount} ok / ${stats.failureCount} failed` +
+          (stats.latencyMs !== undefined ? `, latency ${stats.latencyMs} ms` : ''));
+        if (stats.lastError && stats.consecutiveFailures > 0) {
+          print(`     Last error: ${stats.lastError}`);
+        }
+        if (stats.backoffUntil && stats.backoffUntil > Date.now()) {
+          print(`     Backing off until ${new Date(stats.backoffUntil).toLocaleTimeString()}`);
+        }
       });
     }
+    
+    printJson({ validators: validators.map(validator => ({ ...validator, score: getValidatorScore(validator) })) });
   });
 
 // Add validator
@@ -524,18 +1311,19 @@ validatorCommand
   .requiredOption('-i, --ip <address>', 'Validator IP address')
   .option('-p, --port <port>', 'Validator port', '3000')
   .action(async (options) => {
-    const spinner = ora(`Adding validator ${options.ip}:${options.port}...`).start();
+    const spinner = createSpinner(`Adding validator ${options.ip}:${options.port}...`);
     
     try {
       const success = await validatorEndpoints.addNewValidator(options.ip, parseInt(options.port, 10));
       
       if (success) {
         spinner.succeed(`Validator ${options.ip}:${options.port} added successfully`);
+        printJson({ validator: { ip: options.ip, port: parseInt(options.port, 10) } });
       } else {
-        spinner.fail(`Failed to add validator ${options.ip}:${options.port}`);
+        fail(EXIT_CODES.FAILURE, `Failed to add validator ${options.ip}:${options.port}`, spinner);
       }
     } catch (error) {
-      spinner.fail(`Error: ${(error as Error).message}`);
+      failOnError(error, spinner);
     }
   });
 
@@ -544,13 +1332,105 @@ validatorCommand
   .command('check')
   .description('Check all validators')
   .action(async () => {
-    const spinner = ora('Checking validators...').start();
+    const spinner = createSpinner('Checking validators...');
     
     try {
       const activeCount = await validatorEndpoints.checkAllValidators();
+      if (activeCount === 0) {
+        fail(EXIT_CODES.NO_VALIDATORS, 'No active TPN validators found', spinner);
+      }
+      
       spinner.succeed(`Found ${activeCount} active validators`);
+      const { validators } = getConfig();
+      printJson({ activeCount, validators: validators.map(validator => ({ ...validator, score: getValidatorScore(validator) })) });
     } catch (error) {
-      spinner.fail(`Error: ${(error as Error).message}`);
+      failOnError(error, spinner);
+    }
+  });
+
+// Discover validators
+validatorCommand
+  .command('discover')
+  .description('Discover validators from the seed file, bootstrap URL and peer exchange')
+  .action(async () => {
+    const spinner = createSpinner('Discovering validators...');
+    
+    try {
+      const added = await validatorEndpoints.discoverValidators();
+      if (added > 0) {
+        spinner.succeed(`Added ${added} new validators`);
+      } else {
+        spinner.info('No new validators found');
+      }
+      printJson({ added });
+    } catch (error) {
+      failOnError(error, spinner);
+    }
+  });
+
+// Kill switch commands
+const killSwitchCommand = program.command('killswitch')
+  .description('Block all traffic outside the tunnel while a route is active');
+
+// Kill switch status
+killSwitchCommand
+  .command('status')
+  .description('Show the kill switch setting and whether its rules are installed')
+  .action(() => {
+    const backend = killSwitch.getBackend();
+    
+    print('\nKill Switch:');
+    print(`  - Setting: ${getConfig().killSwitch ? 'Enabled' : 'Disabled'}`);
+    print(`  - Rules installed: ${killSwitch.isActive() ? 'Yes' : 'No'}`);
+    print(`  - Firewall backend: ${backend || 'None (install nftables or iptables)'}`);
+    
+    const { lanSubnets } = getConfig();
+    if (lanSubnets && lanSubnets.length > 0) {
+      print(`  - LAN allowed: ${lanSubnets.join(', ')}`);
+    }
+    
+    printJson({
+      enabled: getConfig().killSwitch,
+      installed: killSwitch.isActive(),
+      backend: backend || null,
+      lanSubnets: lanSubnets || []
+    });
+  });
+
+// Enable kill switch
+killSwitchCommand
+  .command('enable')
+  .description('Enable the kill switch (engages immediately if a route is active)')
+  .action(async () => {
+    const spinner = createSpinner('Enabling kill switch...');
+    
+    try {
+      routeManager.restoreState();
+      const success = await routeManager.enableKillSwitch();
+      
+      if (success) {
+        spinner.succeed('Kill switch enabled');
+        printJson({ enabled: true, installed: killSwitch.isActive() });
+      } else {
+        fail(EXIT_CODES.FAILURE, 'Failed to install kill switch rules', spinner);
+      }
+    } catch (error) {
+      failOnError(error, spinner);
+    }
+  });
+
+// Disable kill switch
+killSwitchCommand
+  .command('disable')
+  .description('Disable the kill switch and restore normal connectivity')
+  .action(() => {
+    const spinner = createSpinner('Disabling kill switch...');
+    
+    if (routeManager.disableKillSwitch()) {
+      spinner.succeed('Kill switch disabled');
+      printJson({ enabled: false, installed: false });
+    } else {
+      fail(EXIT_CODES.FAILURE, 'Failed to remove kill switch rules', spinner);
     }
   });
 
@@ -559,37 +1439,21 @@ program
   .command('countries')
   .description('List available countries')
   .option('-a, --all', 'Show all countries from all validators')
+  .option('-r, --refresh', 'Ignore the cached country index and query the validators again')
   .action(async (options) => {
-    const spinner = ora('Fetching available countries...').start();
+    const spinner = createSpinner('Fetching available countries...');
     
     try {
       if (options.all) {
-        // Récupérer les pays de tous les validateurs actifs
+        // Récupérer les pays de tous les validateurs actifs, en parallèle via l'index
         const validators = getActiveValidators();
         
         if (validators.length === 0) {
-          spinner.fail('No active validators found');
-          return;
+          fail(EXIT_CODES.NO_VALIDATORS, 'No active validators found', spinner);
         }
         
         spinner.text = `Fetching countries from ${validators.length} validators...`;
-        
-        // Map pour stocker les pays par validateur
-        const countryMap = new Map<string, string[]>();
-        
-        // Récupérer les pays de chaque validateur
-        const promises = validators.map(async (validator: ValidatorEndpoint) => {
-          try {
-            const countries = await tpnClient.getAvailableCountries(validator);
-            countryMap.set(`${validator.ip}:${validator.port}`, countries);
-            return countries;
-          } catch (error) {
-            logger.warn(`Could not fetch countries from ${validator.ip}:${validator.port}`);
-            return [];
-          }
-        });
-        
-        await Promise.all(promises);
+        const countryMap = await countryIndex.getCountriesByValidator(options.refresh);
         
         // Collecter tous les pays uniques
         const allCountries = new Set<string>();
@@ -602,49 +1466,82 @@ program
         if (allCountries.size > 0) {
           // Afficher les pays par ordre alphabétique
           const sortedCountries = Array.from(allCountries).sort();
-          console.log('\nAvailable Countries:');
+          print('\nAvailable Countries:');
           const formattedCountries = sortedCountries.join(', ');
-          console.log(`  ${formattedCountries}`);
+          print(`  ${formattedCountries}`);
           
           // Afficher les pays par validateur
-          console.log('\nCountries by Validator:');
+          print('\nCountries by Validator:');
           countryMap.forEach((countries, validatorKey) => {
             if (countries.length > 0) {
-              console.log(`  ${validatorKey}: ${countries.sort().join(', ')}`);
+              print(`  ${validatorKey}: ${countries.sort().join(', ')}`);
             }
           });
         }
+        
+        printJson({
+          countries: Array.from(allCountries).sort(),
+          validators: Object.fromEntries(Array.from(countryMap, ([validatorKey, countries]) => [validatorKey, [...countries].sort()]))
+        });
       } else {
         // Comportement original - récupérer les pays d'un seul validateur
         const validator = tpnClient.getRandomValidator();
-        const countries = await tpnClient.getAvailableCountries(validator);
+        const countries = await tpnClient.getAvailableCountries(validator, !options.refresh);
         
         spinner.succeed(`Found ${countries.length} available countries from ${validator.ip}:${validator.port}`);
         
         if (countries.length > 0) {
-          console.log('\nAvailable Countries:');
+          print('\nAvailable Countries:');
           const sortedCountries = [...countries].sort();
           const formattedCountries = sortedCountries.join(', ');
-          console.log(`  ${formattedCountries}`);
+          print(`  ${formattedCountries}`);
         }
+        
+        printJson({ countries: [...countries].sort(), validator: `${validator.ip}:${validator.port}` });
       }
     } catch (error) {
-      spinner.fail(`Error: ${(error as Error).message}`);
+      failOnError(error, spinner);
     }
   });
 
-// Cleanup command - explicitly clean up all WireGuard interfaces
+// Cleanup command - explicitly clean up the WireGuard interfaces created by tpn-router
 program
   .command('cleanup')
-  .description('Clean up all WireGuard interfaces')
-  .action(async () => {
-    const spinner = ora('Cleaning up all WireGuard interfaces...').start();
+  .description('Clean up the WireGuard interfaces created by tpn-router')
+  .option('--all-wireguard', 'Remove every WireGuard interface on the system, including ones tpn-router did not create')
+  .option('--dry-run', 'Show the commands without changing anything')
+  .action(async (options) => {
+    if (options.dryRun) {
+      const commands = wireguardManager.getCleanupCommands(options.allWireguard);
+      if (killSwitch.isActive()) {
+        commands.push(...killSwitch.getDisableCommands());
+      }
+      printDryRun({ configs: [], commands, routes: [] });
+      return;
+    }
+    
+    const spinner = createSpinner(options.allWireguard
+      ? 'Cleaning up all WireGuard interfaces...'
+      : 'Cleaning up tpn-router WireGuard interfaces...');
     
     try {
-      wireguardManager.cleanupAllInterfaces();
-      spinner.succeed('All WireGuard interfaces cleaned up');
+      if (options.allWireguard) {
+        wireguardManager.cleanupAllInterfaces();
+      } else {
+        wireguardManager.cleanupManagedInterfaces();
+      }
+      clearState();
+      
+      // Without interfaces the kill switch would block everything
+      if (killSwitch.isActive()) {
+        killSwitch.disable();
+      }
+      spinner.succeed(options.allWireguard
+        ? 'All WireGuard interfaces cleaned up'
+        : 'tpn-router WireGuard interfaces cleaned up');
+      printJson({ allWireguard: Boolean(options.allWireguard) });
     } catch (error) {
-      spinner.fail(`Error: ${(error as Error).message}`);
+      failOnError(error, spinner);
     }
   });
 // Parse the command line arguments
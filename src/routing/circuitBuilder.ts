@@ -1,27 +1,184 @@
 import { v4 as uuidv4 } from 'uuid';
-import { Circuit, CircuitNode, WireGuardConfig } from '../types/index.js';
+import { Circuit, CircuitNode, CircuitPolicySettings, LeaseOptions, WireGuardConfig } from '../types/index.js';
 import tpnClient from '../api/tpnClient.js';
+import countryIndex from '../api/countryIndex.js';
 import wireguardManager from '../vpn/wireguardManager.js';
 import { getConfig } from '../utils/config.js';
 import logger from '../utils/logger.js';
+import { parseCountryChain } from '../utils/countries.js';
+import { checkCountry, checkHop, getSeparateGroups } from './circuitPolicy.js';
+import guardManager from './guardManager.js';
+
+// WireGuard rejects a session older than this (REJECT_AFTER_TIME), in seconds
+const MAX_HANDSHAKE_AGE = 180;
 
 /**
  * Class to build and manage Tor-like circuits through multiple VPN nodes
  */
 export class CircuitBuilder {
+  /**
+   * Get the lease of one hop, drawing again while it breaks the circuit policy
+   * @param index Hop index
+   * @param requested Country or fallback chain requested for the hop
+   * @param previous Hops already in the circuit, in order
+   * @param leaseDuration Lease duration in minutes
+   * @param neighbours Hops next to this one, the last of previous by default
+   * @param options Validators to ask, those of the current route by default
+   * @returns Promise resolving to the hop
+   * @throws Error listing the rules that could not be satisfied
+   */
+  private async drawHop(
+    index: number,
+    requested: string,
+    previous: CircuitNode[],
+    leaseDuration: number,
+    neighbours: CircuitNode[] = previous.slice(-1),
+    options: LeaseOptions = {}
+  ): Promise<CircuitNode> {
+    const { circuitPolicy } = getConfig();
+    // Countries ruled out for this hop, with the reason
+    const refused = new Map<string, string>();
+    const violations: string[] = [];
+    
+    for (let attempt = 1; attempt <= circuitPolicy.maxAttempts; attempt++) {
+      const chain = await this.getAllowedChain(requested, previous, neighbours, circuitPolicy, refused);
+      if (chain.length === 0) {
+        break;
+      }
+      
+      const usedValidators = circuitPolicy.distinctValidators
+        ? previous.map(hop => hop.validator).filter((validator): validator is string => !!validator)
+        : [];
+      const response = await tpnClient.getConfigFromChain(chain, leaseDuration, usedValidators, options).catch(error => {
+        if (usedValidators.length === 0) {
+          throw error;
+        }
+        throw new Error(`Circuit policy cannot be satisfied for hop ${index + 1} (requested ${requested}): ${error.message}, ` +
+          `validators ${usedValidators.join(', ')} already issued the previous hops (circuitPolicy.distinctValidators)`);
+      });
+      const node: CircuitNode = {
+        id: uuidv4(),
+        // The country finally used, not the requested chain
+        config: wireguardManager.parseTpnResponse(response, response.country || 'any'),
+        index,
+        validator: response.validator,
+        requested
+      };
+      
+      const broken = await checkHop(circuitPolicy, node, previous, neighbours);
+      if (broken.length === 0) {
+        return node;
+      }
+      
+      logger.warn(`Hop ${index + 1} breaks the circuit policy: ${broken.join('; ')}. Drawing again (${attempt}/${circuitPolicy.maxAttempts})`);
+      violations.push(...broken);
+      
+      // Un pays tiré par 'any' et refusé n'est plus proposé
+      const countryReason = node.config.country ? checkCountry(circuitPolicy, node.config.country, previous, neighbours) : null;
+      if (countryReason) {
+        refused.set(node.config.country!, countryReason);
+      }
+    }
+    
+    const reasons = [...new Set([...refused.values(), ...violations])];
+    throw new Error(`Circuit policy cannot be satisfied for hop ${index + 1} (requested ${requested}): ` +
+      (reasons.length > 0 ? reasons.join('; ') : 'no country left to try'));
+  }
+  
+  /**
+   * Get the entry hop from the persistent guard
+   * @param requested Country or fallback chain requested for the entry, replaced by the guard's
+   * @param leaseDuration Lease duration in minutes
+   * @param options Validators to ask, those of the current route by default
+   * @returns Promise resolving to the entry hop
+   */
+  private async drawGuardHop(requested: string, leaseDuration: number, options: LeaseOptions = {}): Promise<CircuitNode> {
+    const response = await guardManager.leaseEntry(leaseDuration, options);
+    if (requested !== 'any' && !parseCountryChain(requested).includes(response.country || '')) {
+      logger.warn(`Entry country ${requested} ignored, guard mode keeps the guard in ${response.country}`);
+    }
+    
+    return {
+      id: uuidv4(),
+      config: wireguardManager.parseTpnResponse(response, response.country || 'any'),
+      index: 0,
+      validator: response.validator,
+      guard: true,
+      requested
+    };
+  }
+  
+  /**
+   * Remove the countries the circuit policy refuses from a hop's chain, and expand 'any'
+   * into the indexed countries it allows, in random order
+   * @param requested Country or fallback chain requested for the hop
+   * @param previous Hops already in the circuit, in order
+   * @param neighbours Hops next to this one
+   * @param policy Circuit policy settings
+   * @param refused Countries ruled out so far, completed with the ones refused now
+   * @returns Promise resolving to the countries to try, empty if none is allowed
+   */
+  private async getAllowedChain(
+    requested: string,
+    previous: CircuitNode[],
+    neighbours: CircuitNode[],
+    policy: CircuitPolicySettings,
+    refused: Map<string, string>
+  ): Promise<string[]> {
+    const chain: string[] = [];
+    
+    for (const country of parseCountryChain(requested)) {
+      if (country !== 'any') {
+        const reason = refused.get(country) || checkCountry(policy, country, previous, neighbours);
+        if (reason) {
+          refused.set(country, reason);
+        } else if (!chain.includes(country)) {
+          chain.push(country);
+        }
+        continue;
+      }
+      
+      // Sans index, 'any' est gardé et le pays obtenu est vérifié après coup
+      const indexed = [...(await countryIndex.getIndex().catch(() => new Map<string, unknown>())).keys()];
+      if (indexed.length === 0) {
+        chain.push('any');
+        continue;
+      }
+      
+      const allowed = indexed.filter(code => !chain.includes(code) && !refused.has(code) && !checkCountry(policy, code, previous, neighbours));
+      if (allowed.length === 0) {
+        refused.set('any', `none of the indexed countries (${indexed.join(', ')}) is allowed for 'any'`);
+      }
+      for (let i = allowed.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [allowed[i], allowed[j]] = [allowed[j], allowed[i]];
+      }
+      chain.push(...allowed);
+    }
+    return chain;
+  }
+  
   /**
    * Build a new circuit with multiple hops
    * @param length Number of hops in the circuit (default: from config)
    * @param countries Optional specific countries for each hop
+   * @param leaseMinutes Lease duration of every hop in minutes (default: from config)
+   * @param options Validators to ask, those of the current route by default
    * @returns Promise resolving to the created circuit
    */
   async buildCircuit(
     length?: number,
-    countries?: string[]
+    countries?: string[],
+    leaseMinutes?: number,
+    options: LeaseOptions = {}
   ): Promise<Circuit> {
-    const { defaultCircuitLength, defaultLeaseDuration, preferredCountries } = getConfig();
+    const { defaultCircuitLength, preferredCountries, circuitPolicy } = getConfig();
+    const leaseDuration = leaseMinutes || getConfig().defaultLeaseDuration;
     const circuitLength = length || defaultCircuitLength;
     
+    // Un groupe inconnu est signalé avant de prendre le moindre bail
+    getSeparateGroups(circuitPolicy);
+    
     logger.info(`Building a new circuit with ${circuitLength} hops`);
     
     // Créer la structure du circuit avec une nouvelle expiration basée sur l'heure locale
@@ -30,21 +187,11 @@ export class CircuitBuilder {
       id: uuidv4(),
       nodes: [],
       createdAt: new Date(currentTime),
-      expiresAt: new Date(currentTime + defaultLeaseDuration * 60 * 1000),
+      expiresAt: new Date(currentTime + leaseDuration * 60 * 1000),
       active: false
     };
     
     try {
-      // Préparer la liste des validateurs et des pays disponibles
-      let validatorCountryMap = new Map<string, string[]>();
-      
-      // Récupérer un validateur aléatoire pour commencer
-      const initialValidator = tpnClient.getRandomValidator();
-      
-      // Récupérer la liste des pays disponibles
-      const availableCountries = await tpnClient.getAvailableCountries(initialValidator);
-      validatorCountryMap.set(`${initialValidator.ip}:${initialValidator.port}`, availableCountries);
-      
       // Get configs for each hop in the circuit
       for (let i = 0; i < circuitLength; i++) {
         // Déterminer le pays à utiliser pour ce hop
@@ -61,51 +208,18 @@ export class CircuitBuilder {
         
         logger.debug(`Getting configuration for hop ${i + 1}, country: ${country}`);
         
-        // Trouver un validateur qui supporte ce pays si spécifié
-        let validator = initialValidator;
-        if (country !== 'any') {
-          try {
-            const validatorForCountry = await tpnClient.findValidatorForCountry(country);
-            if (validatorForCountry) {
-              validator = validatorForCountry;
-            } else {
-              logger.warn(`No validator found for country ${country}, using random validator`);
-            }
-          } catch (error) {
-            logger.warn(`Error finding validator for country ${country}: ${(error as Error).message}`);
-          }
-        }
-        
-        // Get a new configuration
-        const configResponse = await tpnClient.getNewConfig(
-          validator,
-          country,
-          defaultLeaseDuration
-        );
-        
-        // Parse the configuration
-        const config = wireguardManager.parseTpnResponse(configResponse, 
-          // Use the country from the response if available (for 'any' selections)
-          configResponse.country || country
-        );
-        
-        // Ajuster l'expiration si elle est dans le passé ou trop proche
-        if (config.expiresAt <= currentTime) {
-          logger.warn(`Config expiration from server (${new Date(config.expiresAt).toISOString()}) is in the past, adjusting...`);
-          config.expiresAt = currentTime + defaultLeaseDuration * 60 * 1000;
-        }
+        // Get a lease that follows the circuit policy, each country of the hop's chain in turn (e.g. US|CA|any).
+        // In guard mode the entry always comes from the guard
+        const node = i === 0 && guardManager.isEnabled()
+          ? await this.drawGuardHop(country, leaseDuration, options)
+          : await this.drawHop(i, country, circuit.nodes, leaseDuration, circuit.nodes.slice(-1), options);
+        this.setExpiry(node, leaseDuration, currentTime);
         
         // Add this node to the circuit
-        const node: CircuitNode = {
-          id: uuidv4(),
-          config,
-          index: i
-        };
-        
         circuit.nodes.push(node);
         
         // Log the selected country for this hop
-        logger.info(`Hop ${i + 1} using country: ${config.country || 'Unknown'}`);
+        logger.info(`Hop ${i + 1} using country: ${node.config.country || 'Unknown'}`);
       }
       
       // Recalculer l'expiration pour qu'elle soit l'expiration la plus récente parmi tous les nœuds
@@ -115,7 +229,7 @@ export class CircuitBuilder {
       
       if (earliestExpiration <= currentTime) {
         logger.warn(`Circuit expiration calculated (${new Date(earliestExpiration).toISOString()}) is in the past, using default lease duration`);
-        circuit.expiresAt = new Date(currentTime + defaultLeaseDuration * 60 * 1000);
+        circuit.expiresAt = new Date(currentTime + leaseDuration * 60 * 1000);
       } else {
         circuit.expiresAt = new Date(earliestExpiration);
       }
@@ -133,12 +247,64 @@ export class CircuitBuilder {
     }
   }
   
+  /**
+   * Draw a new lease for one hop of a circuit, following the circuit policy against the other hops.
+   * The requested chain is followed in order; its 'any' tries the hop's current country first.
+   * @param circuit Circuit the hop belongs to, left unchanged
+   * @param index Index of the hop to replace
+   * @param requested Country or fallback chain requested for the hop
+   * @param leaseMinutes Lease duration in minutes
+   * @returns Promise resolving to the new hop, at the same index
+   * @throws Error if the hop does not exist or no lease follows the policy
+   */
+  async replaceHop(circuit: Circuit, index: number, requested: string, leaseMinutes?: number): Promise<CircuitNode> {
+    const leaseDuration = leaseMinutes || getConfig().defaultLeaseDuration;
+    const current = circuit.nodes.find(node => node.index === index);
+    if (!current) {
+      throw new Error(`Circuit ${circuit.id} has no hop ${index + 1}`);
+    }
+    getSeparateGroups(getConfig().circuitPolicy);
+    
+    let node: CircuitNode;
+    if (current.guard && guardManager.isEnabled()) {
+      node = await this.drawGuardHop(requested, leaseDuration);
+    } else {
+      // Un hop 'any' garde son pays actuel s'il le peut, plutôt que de partir dans un pays sans rapport
+      const chain = [...new Set(parseCountryChain(requested)
+        .flatMap(country => country === 'any' && current.config.country ? [current.config.country, 'any'] : [country]))].join('|');
+      const others = [...circuit.nodes].filter(node => node.index !== index).sort((a, b) => a.index - b.index);
+      const neighbours = others.filter(node => Math.abs(node.index - index) === 1);
+      node = await this.drawHop(index, chain, others, leaseDuration, neighbours);
+      node.requested = requested;
+    }
+    
+    this.setExpiry(node, leaseDuration, Date.now());
+    logger.info(`New lease for hop ${index + 1} in ${node.config.country || 'Unknown'}, expires at ${new Date(node.expiresAt!).toISOString()}`);
+    return node;
+  }
+  
+  /**
+   * Record when a hop's lease ends, the lease duration is used if the server's expiry is already past
+   * @param node Hop to update
+   * @param leaseDuration Lease duration in minutes
+   * @param currentTime Time the lease was fetched
+   */
+  private setExpiry(node: CircuitNode, leaseDuration: number, currentTime: number): void {
+    const config = node.config;
+    if (config.expiresAt <= currentTime) {
+      logger.warn(`Config expiration from server (${new Date(config.expiresAt).toISOString()}) is in the past, adjusting...`);
+      config.expiresAt = currentTime + leaseDuration * 60 * 1000;
+    }
+    node.expiresAt = config.expiresAt;
+  }
+  
   /**
    * Validate a circuit to ensure it's properly formed
    * @param circuit Circuit to validate
+   * @param checkHandshakes Also require a live handshake on every layer (once connected)
    * @returns Boolean indicating if circuit is valid
    */
-  validateCircuit(circuit: Circuit): boolean {
+  validateCircuit(circuit: Circuit, checkHandshakes: boolean = false): boolean {
     // Check if circuit has nodes
     if (!circuit.nodes || circuit.nodes.length === 0) {
       logger.error('Invalid circuit: No nodes');
@@ -161,6 +327,23 @@ export class CircuitBuilder {
       return false;
     }
     
+    // Check that every layer is up and talking to its peer
+    if (checkHandshakes) {
+      const nowSeconds = Math.floor(currentTime / 1000);
+      for (const node of [...circuit.nodes].sort((a, b) => a.index - b.index)) {
+        if (!node.interfaceName) {
+          logger.error(`Invalid circuit: Hop ${node.index + 1} has no interface`);
+          return false;
+        }
+        
+        const handshake = wireguardManager.getLatestHandshake(node.interfaceName);
+        if (handshake === 0 || nowSeconds - handshake > MAX_HANDSHAKE_AGE) {
+          logger.error(`Invalid circuit: Hop ${node.index + 1} (${node.interfaceName}) has no live handshake`);
+          return false;
+        }
+      }
+    }
+    
     return true;
   }
   
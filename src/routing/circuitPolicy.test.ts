@@ -0,0 +1,130 @@
+import { describe, expect, it } from '@jest/globals';
+import { CircuitNode, CircuitPolicySettings } from '../types/index.js';
+import { checkCountry, checkHop, getSeparateGroups } from './circuitPolicy.js';
+
+/**
+ * Policy with every rule off, tests turn on the ones they need
+ */
+function policy(settings: Partial<CircuitPolicySettings> = {}): CircuitPolicySettings {
+  return {
+    excludeCountries: [],
+    distinctCountries: false,
+    separateGroups: [],
+    groups: {},
+    distinctValidators: false,
+    distinctSubnets: false,
+    maxAttempts: 5,
+    ...settings,
+  };
+}
+
+/**
+ * Circuit hop with just what the policy looks at
+ */
+function hop(index: number, country: string | undefined, endpoint = `198.51.100.${index + 1}:51820`, validator?: string): CircuitNode {
+  return {
+    id: `hop-${index}`,
+    index,
+    validator,
+    config: {
+      id: `config-${index}`,
+      privateKey: '',
+      publicKey: '',
+      presharedKey: '',
+      endpoint,
+      allowedIPs: ['0.0.0.0/0'],
+      listenPort: 0,
+      raw: '',
+      expiresAt: 0,
+      country,
+    },
+  };
+}
+
+describe('getSeparateGroups', () => {
+  it('expands the built-in Eyes groups, each containing the previous one', () => {
+    const groups = getSeparateGroups(policy({ separateGroups: ['five-eyes', 'nine-eyes', 'fourteen-eyes'] }));
+    expect(groups['five-eyes']).toEqual(['AU', 'CA', 'GB', 'NZ', 'US']);
+    expect(groups['nine-eyes']).toEqual(expect.arrayContaining([...groups['five-eyes'], 'DK', 'FR', 'NL', 'NO']));
+    expect(groups['fourteen-eyes']).toEqual(expect.arrayContaining([...groups['nine-eyes'], 'BE', 'DE', 'ES', 'IT', 'SE']));
+    expect(groups['fourteen-eyes']).toHaveLength(14);
+  });
+  
+  it('lets user-defined groups add to or override the built-in ones', () => {
+    const groups = getSeparateGroups(policy({ separateGroups: ['nordics', 'five-eyes'], groups: { nordics: ['dk', 'SE|NO'], 'five-eyes': ['US'] } }));
+    expect(groups).toEqual({ nordics: ['DK', 'SE', 'NO'], 'five-eyes': ['US'] });
+  });
+  
+  it('refuses unknown groups', () => {
+    expect(() => getSeparateGroups(policy({ separateGroups: ['six-eyes'] }))).toThrow("Unknown jurisdiction group 'six-eyes'");
+  });
+});
+
+describe('checkCountry', () => {
+  const fourteenEyes = policy({ separateGroups: ['fourteen-eyes'] });
+  
+  it('refuses a country sharing an Eyes group with the previous hop', () => {
+    expect(checkCountry(fourteenEyes, 'CA', [hop(0, 'US')]))
+      .toBe('CA and US (hop 1) are both in the fourteen-eyes group (circuitPolicy.separateGroups)');
+    expect(checkCountry(fourteenEyes, 'DE', [hop(0, 'FR')])).not.toBeNull();
+  });
+  
+  it('allows a country outside the group of the previous hop', () => {
+    expect(checkCountry(fourteenEyes, 'CH', [hop(0, 'US')])).toBeNull();
+    expect(checkCountry(fourteenEyes, 'US', [hop(0, 'CH')])).toBeNull();
+    // DE is in fourteen-eyes but not in five-eyes
+    expect(checkCountry(policy({ separateGroups: ['five-eyes'] }), 'DE', [hop(0, 'US')])).toBeNull();
+  });
+  
+  it('only compares with the neighbouring hops', () => {
+    // Hop 3 after US -> CH: US is not next to it
+    expect(checkCountry(fourteenEyes, 'GB', [hop(0, 'US'), hop(1, 'CH')])).toBeNull();
+    // A replaced middle hop sits between both of its neighbours
+    const entry = hop(0, 'CH');
+    const exit = hop(2, 'GB');
+    expect(checkCountry(fourteenEyes, 'US', [entry, exit], [entry, exit])).toContain('(hop 3)');
+  });
+  
+  it('ignores neighbours whose country is unknown', () => {
+    expect(checkCountry(fourteenEyes, 'US', [hop(0, undefined)])).toBeNull();
+  });
+  
+  it("always allows 'any', the drawn country is checked later", () => {
+    expect(checkCountry(policy({ excludeCountries: ['US'], separateGroups: ['fourteen-eyes'] }), 'any', [hop(0, 'US')])).toBeNull();
+  });
+  
+  it('refuses excluded and repeated countries', () => {
+    expect(checkCountry(policy({ excludeCountries: ['RU|CN'] }), 'CN', [])).toBe('CN is excluded (circuitPolicy.excludeCountries)');
+    expect(checkCountry(policy({ distinctCountries: true }), 'NL', [hop(0, 'NL'), hop(1, 'CH')]))
+      .toBe('NL is already used by hop 1 (circuitPolicy.distinctCountries)');
+    expect(checkCountry(policy(), 'NL', [hop(0, 'NL')])).toBeNull();
+  });
+});
+
+describe('checkHop', () => {
+  it('applies the Eyes groups to the country of the lease', async () => {
+    const violations = await checkHop(policy({ separateGroups: ['five-eyes'] }), hop(1, 'GB'), [hop(0, 'NZ')]);
+    expect(violations).toEqual(['GB and NZ (hop 1) are both in the five-eyes group (circuitPolicy.separateGroups)']);
+  });
+  
+  it('skips the country check while the lease country is unknown', async () => {
+    expect(await checkHop(policy({ separateGroups: ['five-eyes'] }), hop(1, undefined), [hop(0, 'NZ')])).toEqual([]);
+  });
+  
+  it('refuses a validator or an endpoint network already used', async () => {
+    const previous = [hop(0, 'CH', '203.0.113.10:51820', '10.0.0.1:3000')];
+    const node = hop(1, 'IS', '203.0.113.20:51820', '10.0.0.1:3000');
+    expect(await checkHop(policy({ distinctValidators: true, distinctSubnets: true }), node, previous)).toEqual([
+      'validator 10.0.0.1:3000 already issued hop 1 (circuitPolicy.distinctValidators)',
+      'endpoint 203.0.113.20:51820 is in 203.0.113.0/24 like hop 1 (circuitPolicy.distinctSubnets)',
+    ]);
+    expect(await checkHop(policy({ distinctSubnets: true }), hop(1, 'IS', '203.0.114.20:51820'), previous)).toEqual([]);
+  });
+  
+  it('compares IPv6 endpoints by /48', async () => {
+    const previous = [hop(0, 'CH', '[2001:db8:1::1]:51820')];
+    expect(await checkHop(policy({ distinctSubnets: true }), hop(1, 'IS', '[2001:db8:1:ff::2]:51820'), previous))
+      .toEqual(['endpoint [2001:db8:1:ff::2]:51820 is in 2001:db8:1::/48 like hop 1 (circuitPolicy.distinctSubnets)']);
+    expect(await checkHop(policy({ distinctSubnets: true }), hop(1, 'IS', '[2001:db8:2::1]:51820'), previous)).toEqual([]);
+  });
+});
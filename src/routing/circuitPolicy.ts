@@ -0,0 +1,135 @@
+import net from 'net';
+import { CircuitNode, CircuitPolicySettings } from '../types/index.js';
+import wireguardManager from '../vpn/wireguardManager.js';
+import { parseCountryChain } from '../utils/countries.js';
+
+// Intelligence-sharing alliances, each group contains the previous one
+const FIVE_EYES = ['AU', 'CA', 'GB', 'NZ', 'US'];
+const NINE_EYES = [...FIVE_EYES, 'DK', 'FR', 'NL', 'NO'];
+const FOURTEEN_EYES = [...NINE_EYES, 'BE', 'DE', 'ES', 'IT', 'SE'];
+
+/**
+ * Built-in jurisdiction groups, usable in circuitPolicy.separateGroups
+ */
+export const JURISDICTION_GROUPS: Record<string, string[]> = {
+  'five-eyes': FIVE_EYES,
+  'nine-eyes': NINE_EYES,
+  'fourteen-eyes': FOURTEEN_EYES,
+};
+
+/**
+ * Get the groups two consecutive hops must not share
+ * @param policy Circuit policy settings
+ * @returns Member countries by group name
+ * @throws Error if a group is neither built in nor defined in circuitPolicy.groups
+ */
+export function getSeparateGroups(policy: CircuitPolicySettings): Record<string, string[]> {
+  const groups: Record<string, string[]> = {};
+  for (const name of policy.separateGroups) {
+    const members = policy.groups[name] || JURISDICTION_GROUPS[name];
+    if (!members) {
+      throw new Error(`Unknown jurisdiction group '${name}' in circuitPolicy.separateGroups, ` +
+        `use ${Object.keys(JURISDICTION_GROUPS).join(', ')} or define it in circuitPolicy.groups`);
+    }
+    groups[name] = members.flatMap(parseCountryChain);
+  }
+  return groups;
+}
+
+/**
+ * Check whether a country may be used for the next hop
+ * @param policy Circuit policy settings
+ * @param country Country code of the candidate hop
+ * @param previous Hops already in the circuit, in order
+ * @param neighbours Hops next to the candidate, the last of previous by default
+ * @returns Why the country is refused, or null if it is allowed
+ */
+export function checkCountry(
+  policy: CircuitPolicySettings,
+  country: string,
+  previous: CircuitNode[],
+  neighbours: CircuitNode[] = previous.slice(-1)
+): string | null {
+  if (country === 'any') {
+    return null;
+  }
+  
+  if (policy.excludeCountries.flatMap(parseCountryChain).includes(country)) {
+    return `${country} is excluded (circuitPolicy.excludeCountries)`;
+  }
+  
+  const repeated = previous.find(node => node.config.country === country);
+  if (policy.distinctCountries && repeated) {
+    return `${country} is already used by hop ${repeated.index + 1} (circuitPolicy.distinctCountries)`;
+  }
+  
+  for (const neighbour of neighbours) {
+    const other = neighbour.config.country;
+    for (const [name, members] of Object.entries(getSeparateGroups(policy))) {
+      if (other && members.includes(country) && members.includes(other)) {
+        return `${country} and ${other} (hop ${neighbour.index + 1}) are both in the ${name} group (circuitPolicy.separateGroups)`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the network an endpoint belongs to: its IPv4 /24 or IPv6 /48
+ * @param endpoint Endpoint in host:port or [v6]:port form
+ * @returns Promise resolving to the network, e.g. "203.0.113.0/24"
+ */
+async function getEndpointSubnet(endpoint: string): Promise<string> {
+  const ip = await wireguardManager.resolveEndpointHost(endpoint);
+  if (net.isIPv4(ip)) {
+    return `${ip.split('.').slice(0, 3).join('.')}.0/24`;
+  }
+  
+  // Les trois premiers groupes d'une adresse IPv6 développée
+  const [head, tail = ''] = ip.split('::');
+  const groups = head ? head.split(':') : [];
+  const missing = 8 - groups.length - (tail ? tail.split(':').length : 0);
+  const full = [...groups, ...Array(Math.max(missing, 0)).fill('0'), ...(tail ? tail.split(':') : [])];
+  return `${full.slice(0, 3).map(group => parseInt(group, 16).toString(16)).join(':')}::/48`;
+}
+
+/**
+ * Check a hop once its lease is known
+ * @param policy Circuit policy settings
+ * @param node Candidate hop, with its lease and validator
+ * @param previous Hops already in the circuit, in order
+ * @param neighbours Hops next to the candidate, the last of previous by default
+ * @returns Promise resolving to the rules the hop breaks, empty if it is allowed
+ */
+export async function checkHop(
+  policy: CircuitPolicySettings,
+  node: CircuitNode,
+  previous: CircuitNode[],
+  neighbours: CircuitNode[] = previous.slice(-1)
+): Promise<string[]> {
+  const violations: string[] = [];
+  
+  // The lease may come from 'any', its country is only known now
+  const countryViolation = node.config.country ? checkCountry(policy, node.config.country, previous, neighbours) : null;
+  if (countryViolation) {
+    violations.push(countryViolation);
+  }
+  
+  if (policy.distinctValidators && node.validator) {
+    const shared = previous.find(hop => hop.validator === node.validator);
+    if (shared) {
+      violations.push(`validator ${node.validator} already issued hop ${shared.index + 1} (circuitPolicy.distinctValidators)`);
+    }
+  }
+  
+  if (policy.distinctSubnets && previous.length > 0) {
+    const subnet = await getEndpointSubnet(node.config.endpoint);
+    for (const hop of previous) {
+      if (await getEndpointSubnet(hop.config.endpoint) === subnet) {
+        violations.push(`endpoint ${node.config.endpoint} is in ${subnet} like hop ${hop.index + 1} (circuitPolicy.distinctSubnets)`);
+        break;
+      }
+    }
+  }
+  return violations;
+}
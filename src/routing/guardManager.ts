@@ -0,0 +1,237 @@
+import { GuardNode, LeaseOptions, TpnConfigResponse, ValidatorEndpoint } from '../types/index.js';
+import tpnClient from '../api/tpnClient.js';
+import countryIndex from '../api/countryIndex.js';
+import logger from '../utils/logger.js';
+import { getConfig, getActiveValidators, getValidatorKey, getValidatorScore } from '../utils/config.js';
+import { getState, updateState } from '../utils/state.js';
+import { parseCountryChain } from '../utils/countries.js';
+import { checkCountry } from './circuitPolicy.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Keep the entry node of circuits stable, like Tor guards: a new random entry on every
+ * build would sooner or later hand the circuit to a malicious one
+ */
+export class GuardManager {
+  /**
+   * Whether circuits use the persistent guard as their first hop
+   */
+  isEnabled(): boolean {
+    return getConfig().guard.enabled;
+  }
+  
+  /**
+   * Get the persisted guard
+   * @returns The guard, or null if none was chosen yet
+   */
+  getGuard(): GuardNode | null {
+    return getState().guard || null;
+  }
+  
+  /**
+   * Get the guard to use for the next circuit, choosing a new one when it is missing,
+   * due for rotation or now refused by the circuit policy
+   * @param options Validators the guard may be chosen among, those of the current route by default
+   * @returns Promise resolving to the guard
+   */
+  async getEntry(options: LeaseOptions = {}): Promise<GuardNode> {
+    const guard = this.getGuard();
+    if (!guard) {
+      return this.chooseGuard([], options);
+    }
+    
+    if (Date.now() >= Date.parse(guard.rotateAt)) {
+      logger.info(`Guard ${guard.validator} (${guard.country}) reached its rotation date`);
+      return this.chooseGuard([guard.validator], options);
+    }
+    
+    const refused = checkCountry(getConfig().circuitPolicy, guard.country, []);
+    if (refused) {
+      logger.warn(`Guard ${guard.validator} can no longer be used: ${refused}`);
+      return this.chooseGuard([guard.validator], options);
+    }
+    return guard;
+  }
+  
+  /**
+   * Replace the guard with another validator
+   * @returns Promise resolving to the new guard
+   */
+  async rotate(): Promise<GuardNode> {
+    const current = this.getGuard();
+    return this.chooseGuard(current ? [current.validator] : []);
+  }
+  
+  /**
+   * Lease the first hop of a circuit from the guard. When the guard reaches
+   * guard.maxFailures it is replaced and the new one is asked straight away.
+   * @param leaseMinutes Lease duration in minutes
+   * @param options Validators to ask, those of the current route by default. A dry run counts no failure.
+   * @returns Promise resolving to the lease, with its country and validator
+   * @throws Error if the guard could not provide a lease
+   */
+  async leaseEntry(leaseMinutes: number, options: LeaseOptions = {}): Promise<TpnConfigResponse> {
+    const guard = await this.getEntry(options);
+    try {
+      return await this.leaseFrom(guard, leaseMinutes, options);
+    } catch (error) {
+      const message = (error as Error).message;
+      if (options.dryRun) {
+        throw new Error(`Guard ${guard.validator} (${guard.country}) could not provide a lease: ${message}`);
+      }
+      
+      const replaced = await this.recordFailure(message, options);
+      if (!replaced) {
+        throw new Error(`Guard ${guard.validator} (${guard.country}) could not provide a lease: ${message} ` +
+          `(failure ${this.getGuard()?.failures || 0}/${getConfig().guard.maxFailures})`);
+      }
+      
+      logger.info(`Leasing the entry from the new guard ${replaced.validator} (${replaced.country})`);
+      try {
+        return await this.leaseFrom(replaced, leaseMinutes, options);
+      } catch (retryError) {
+        await this.recordFailure((retryError as Error).message);
+        throw new Error(`New guard ${replaced.validator} (${replaced.country}) could not provide a lease either: ${(retryError as Error).message}`);
+      }
+    }
+  }
+  
+  /**
+   * Ask the guard's validator for a lease in the guard's country
+   */
+  private async leaseFrom(guard: GuardNode, leaseMinutes: number, options: LeaseOptions): Promise<TpnConfigResponse> {
+    const validator = getActiveValidators(options.validators).find(v => this.getKey(v) === guard.validator);
+    if (!validator) {
+      throw new Error(`validator ${guard.validator} is not available`);
+    }
+    
+    const response = await tpnClient.getNewConfig(validator, guard.country, leaseMinutes, 1);
+    if (!options.dryRun) {
+      this.recordSuccess(response.country);
+    }
+    return { ...response, validator: guard.validator };
+  }
+  
+  /**
+   * Reset the failure count after the guard worked
+   * @param country Country of the lease, pins a guard chosen without country index
+   */
+  recordSuccess(country?: string): void {
+    const guard = this.getGuard();
+    if (!guard) return;
+    
+    const pinned = guard.country === 'any' && country && country !== 'any' ? country : guard.country;
+    if (guard.failures > 0 || pinned !== guard.country) {
+      updateState({ guard: { ...guard, country: pinned, failures: 0 } });
+    }
+  }
+  
+  /**
+   * Count a failure of the guard, and replace it after guard.maxFailures in a row
+   * @param reason What failed, for the logs
+   * @param options Validators the next guard may be chosen among, those of the current route by default
+   * @returns Promise resolving to the new guard if it was replaced, null otherwise
+   */
+  async recordFailure(reason: string, options: LeaseOptions = {}): Promise<GuardNode | null> {
+    const guard = this.getGuard();
+    if (!guard) return null;
+    
+    const failures = guard.failures + 1;
+    logger.warn(`Guard ${guard.validator} failed (${failures}/${getConfig().guard.maxFailures}): ${reason}`);
+    if (failures < getConfig().guard.maxFailures) {
+      updateState({ guard: { ...guard, failures } });
+      return null;
+    }
+    
+    logger.warn(`Guard ${guard.validator} failed ${failures} times in a row, choosing a new one`);
+    return this.chooseGuard([guard.validator], options);
+  }
+  
+  /**
+   * Choose and persist a new guard: the best scored validator offering the first
+   * allowed country of guard.country ('any' takes a random indexed country)
+   * @param excludeValidators ip:port of validators not to choose, e.g. the previous guard
+   * @param options Validators to choose among, those of the current route by default. A dry run saves nothing.
+   * @returns Promise resolving to the new guard
+   * @throws Error if no validator can be chosen
+   */
+  private async chooseGuard(excludeValidators: string[] = [], options: LeaseOptions = {}): Promise<GuardNode> {
+    const { guard: settings, circuitPolicy } = getConfig();
+    const active = getActiveValidators(options.validators)
+      .filter(v => !excludeValidators.includes(this.getKey(v)))
+      .sort((a, b) => getValidatorScore(b) - getValidatorScore(a));
+    const activeKeys = new Set(active.map(v => this.getKey(v)));
+    const index = await countryIndex.getIndex().catch(() => new Map<string, ValidatorEndpoint[]>());
+    
+    let chosen: { country: string; validator: ValidatorEndpoint } | undefined;
+    for (const requested of parseCountryChain(settings.country)) {
+      // Sans index, le pays est fixé par le premier bail
+      if (index.size === 0) {
+        chosen = active[0] && { country: requested, validator: active[0] };
+        break;
+      }
+      
+      const countries = requested === 'any' ? this.shuffle([...index.keys()]) : [requested];
+      for (const country of countries) {
+        if (checkCountry(circuitPolicy, country, [])) {
+          continue;
+        }
+        const validator = (index.get(country) || [])
+          .filter(v => activeKeys.has(this.getKey(v)))
+          .sort((a, b) => getValidatorScore(b) - getValidatorScore(a))[0];
+        if (validator) {
+          chosen = { country, validator };
+          break;
+        }
+      }
+      if (chosen) break;
+    }
+    
+    if (!chosen && excludeValidators.length > 0) {
+      // Mieux vaut garder le même validateur que ne plus avoir de guard
+      logger.warn(`No validator other than ${excludeValidators.join(', ')} can be the guard, choosing among all of them`);
+      return this.chooseGuard([], options);
+    }
+    if (!chosen) {
+      throw new Error(`No active validator can be chosen as guard in ${settings.country}`);
+    }
+    
+    const now = Date.now();
+    const guard: GuardNode = {
+      country: chosen.country,
+      validator: this.getKey(chosen.validator),
+      chosenAt: new Date(now).toISOString(),
+      rotateAt: new Date(now + settings.rotationDays * DAY_MS).toISOString(),
+      failures: 0,
+    };
+    if (options.dryRun) {
+      logger.info(`A new guard would be chosen: ${guard.validator} in ${guard.country}`);
+      return guard;
+    }
+    
+    updateState({ guard });
+    logger.info(`New guard: ${guard.validator} in ${guard.country}, rotated on ${guard.rotateAt}`);
+    return guard;
+  }
+  
+  /**
+   * Shuffle a list in place
+   */
+  private shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+  
+  /**
+   * Get the ip:port key of a validator
+   */
+  private getKey(validator: ValidatorEndpoint): string {
+    return getValidatorKey(validator);
+  }
+}
+
+export default new GuardManager();
@@ -1,50 +1,150 @@
 import { v4 as uuidv4 } from 'uuid';
-import { Circuit, WireGuardConfig } from '../types/index.js';
+import { Circuit, CircuitNode, DryRunPlan, HealthCheckResult, LeaseOptions, RouteLoss, RouteProfile, RouteStatus, SplitTunnelRules, WireGuardConfig } from '../types/index.js';
 import circuitBuilder from './circuitBuilder.js';
+import guardManager from './guardManager.js';
 import connectionHandler from '../vpn/connectionHandler.js';
 import logger from '../utils/logger.js';
 import { EventEmitter } from 'events';
 import { execSync } from 'child_process';
 import wireguardManager from '../vpn/wireguardManager.js';
+import killSwitch from '../vpn/killSwitch.js';
+import splitTunnel from '../vpn/splitTunnel.js';
+import healthMonitor from '../vpn/healthMonitor.js';
 import tpnClient from '../api/tpnClient.js';
-import { getConfig } from '../utils/config.js';
+import { getConfig, updateConfig, setValidatorSubset } from '../utils/config.js';
+import { getState, updateState, clearState } from '../utils/state.js';
+import { parseCountryChain } from '../utils/countries.js';
+
+// Delay before retrying a failed hop renewal
+const HOP_RETRY_DELAY = 15000;
+// Delay before trying again to replace a route the failover could not replace
+const FAILOVER_RETRY_DELAY = 60000;
+// Longest delay setTimeout takes, a longer one fires right away
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
 
 /**
  * Class to manage routing through TPN VPN
  */
 export class RouteManager extends EventEmitter {
   private activeCircuit: Circuit | null = null;
-  private circuitRefreshTimer: NodeJS.Timeout | null = null;
+  // One renewal timer per circuit hop, by node id
+  private hopTimers = new Map<string, NodeJS.Timeout>();
+  private failingOver = false;
+  // Profile of the active route, rebuilds and renewals keep its lease duration and validators
+  private profile: RouteProfile | null = null;
+  // Only long-running processes (the daemon) check the tunnel health
+  private monitorHealth = false;
+  // Route the failover could not replace, retried until a new route is up
+  private routeLoss: RouteLoss | null = null;
+  private failoverTimer: NodeJS.Timeout | null = null;
   
   constructor() {
     super();
+    
+    // Keep the one-node circuit in sync when the connection renews its own lease
+    connectionHandler.on('connection:refreshed', (config: WireGuardConfig) => {
+      if (this.activeCircuit && this.activeCircuit.nodes.length === 1) {
+        this.activeCircuit.nodes[0].config = config;
+        this.activeCircuit.expiresAt = new Date(config.expiresAt);
+        this.setActiveCircuit(this.activeCircuit);
+        this.emit('route:refreshed', this.activeCircuit);
+      }
+    });
+    
+    // Surface tunnel health and replace the route once it stops carrying traffic
+    healthMonitor.on('degraded', (result: HealthCheckResult) => {
+      this.emit('route:degraded', this.activeCircuit, result);
+    });
+    healthMonitor.on('failed', (result: HealthCheckResult) => {
+      this.emit('route:failed', this.activeCircuit, result);
+      this.recordGuardFailure(result)
+        .then(() => this.failover())
+        .catch(err => {
+          logger.error(`Failover failed: ${err.message}`);
+        });
+    });
+  }
+  
+  /**
+   * Count a failed entry tunnel against the guard it was leased from
+   * @param result Health check that failed
+   */
+  private async recordGuardFailure(result: HealthCheckResult): Promise<void> {
+    const entry = this.activeCircuit?.nodes.find(node => node.guard);
+    if (entry && entry.interfaceName === result.interfaceName) {
+      await guardManager.recordFailure(result.reason || `${result.interfaceName} stopped carrying traffic`);
+    }
+  }
+  
+  /**
+   * Use a profile for the next connections: split tunnel rules, lease duration and validators
+   * @param profile Profile of the route, null to go back to the configured settings
+   */
+  private applyProfile(profile: RouteProfile | null): void {
+    this.profile = profile;
+    connectionHandler.setSplitTunnel(profile?.splitTunnel || null);
+    connectionHandler.setLeaseDuration(profile?.leaseDuration || null);
+    setValidatorSubset(profile?.validators || null);
+  }
+  
+  /**
+   * Fill in the settings a profile leaves to the application configuration
+   * @param profile Route profile
+   * @returns Hops, countries and lease duration to use
+   */
+  private resolveProfile(profile: RouteProfile): { simple: boolean; length: number; countries?: string[]; leaseMinutes: number } {
+    const { defaultCircuitLength, defaultLeaseDuration } = getConfig();
+    const length = profile.mode === 'circuit' ? profile.length || defaultCircuitLength : 1;
+    return {
+      simple: length === 1,
+      length,
+      countries: profile.countries && profile.countries.length > 0 ? profile.countries : undefined,
+      leaseMinutes: profile.leaseDuration || defaultLeaseDuration
+    };
+  }
+  
+  /**
+   * Build the profile rebuilding the current circuit, keeping its split tunnel rules
+   * @param length Number of hops
+   * @param countries Countries of the hops, undefined to let the builder pick
+   * @returns Profile for createRoute()
+   */
+  private getRebuildProfile(length: number, countries?: string[]): RouteProfile {
+    return {
+      ...this.profile,
+      mode: 'circuit',
+      length,
+      countries,
+      splitTunnel: connectionHandler.getSplitTunnelRules()
+    };
   }
   
   /**
    * Create and activate a new VPN route
-   * @param length Number of hops in the circuit (for advanced mode)
-   * @param countries Optional specific countries for each hop
-   * @param simple Use simple mode (direct connection) if true
+   * @param profile Mode, hops, countries, lease duration, split tunnel rules and validators of the route
    * @returns Promise resolving to boolean indicating success
    */
-  async createRoute(length?: number, countries?: string[], simple: boolean = true): Promise<boolean> {
+  async createRoute(profile: RouteProfile): Promise<boolean> {
     try {
+      this.applyProfile(profile);
+      const { simple, length, countries, leaseMinutes } = this.resolveProfile(profile);
+      
       // Clean up existing wireguard interfaces
       logger.info('Cleaning up existing WireGuard interfaces...');
-      wireguardManager.cleanupAllInterfaces();
+      wireguardManager.cleanupManagedInterfaces();
       
-      // Stop any existing route
-      await this.stopRoute();
+      // Stop any existing route, the kill switch stays up until the new one is ready
+      await this.stopRoute(false);
       
       // Simple mode - just a direct VPN connection (recommended)
-      if (simple || !length || length === 1) {
+      if (simple) {
         logger.info('Using simple mode (direct VPN connection)');
         
-        // Get the country for the connection
-        const country = countries && countries.length > 0 ? countries[0] : 'any';
+        // In simple mode the countries form one fallback chain
+        const country = countries ? countries.join('|') : 'any';
         
         // Connect directly using connectionHandler
-        const connected = await connectionHandler.connectDirect(country, getConfig().defaultLeaseDuration);
+        const connected = await connectionHandler.connectDirect(country, leaseMinutes);
         
         if (!connected) {
           logger.error('Failed to establish VPN connection');
@@ -59,18 +159,7 @@ export class RouteManager extends EventEmitter {
         }
         
         // Create a circuit with one node
-        const currentTime = Date.now();
-        this.activeCircuit = {
-          id: uuidv4(),
-          nodes: [{
-            id: uuidv4(),
-            config,
-            index: 0
-          }],
-          createdAt: new Date(currentTime),
-          expiresAt: new Date(config.expiresAt),
-          active: true
-        };
+        this.setActiveCircuit(this.createSingleNodeCircuit(config, country));
         
         logger.success('VPN route created successfully');
         this.emit('route:created', this.activeCircuit);
@@ -82,7 +171,7 @@ export class RouteManager extends EventEmitter {
         
         // Build a circuit
         logger.info('Building a multi-hop routing circuit...');
-        const circuit = await circuitBuilder.buildCircuit(length, countries);
+        const circuit = await circuitBuilder.buildCircuit(length, countries, leaseMinutes);
         
         // Validate the circuit
         if (!circuitBuilder.validateCircuit(circuit)) {
@@ -90,24 +179,27 @@ export class RouteManager extends EventEmitter {
           return false;
         }
         
-        // Get the entry node configuration
+        // Bring up every hop, each nested inside the previous one
         const entryConfig = circuitBuilder.getEntryNodeConfig(circuit);
-        
-        // Connect to the entry node
-        logger.info(`Connecting to entry node in ${entryConfig.country || 'unknown country'}...`);
-        const connected = await connectionHandler.connect(entryConfig);
+        logger.info(`Connecting through entry node in ${entryConfig.country || 'unknown country'}...`);
+        const connected = await connectionHandler.connectCircuit(circuit);
         
         if (!connected) {
-          logger.error('Failed to connect to entry node');
+          logger.error('Failed to bring up the circuit');
           return false;
         }
         
-        // Set the active circuit
-        this.activeCircuit = circuit;
-        if (this.activeCircuit) {
-          this.activeCircuit.active = true;
+        // Every layer must have completed its handshake
+        if (!circuitBuilder.validateCircuit(circuit, true)) {
+          logger.error('Circuit is not carrying traffic, tearing it down');
+          await connectionHandler.disconnect();
+          return false;
         }
         
+        // Set the active circuit
+        circuit.active = true;
+        this.setActiveCircuit(circuit);
+        
         // Set up circuit refresh timer
         this.setupRefreshTimer();
         
@@ -122,56 +214,245 @@ export class RouteManager extends EventEmitter {
   }
   
   /**
-   * Set up a timer to refresh the route before it expires
+   * Describe what createRoute() would do. Leases are fetched, but nothing is written to disk
+   * and no interface, route or firewall rule is touched. The profile is only used for this plan,
+   * the route in use keeps its own, and the guard is neither chosen nor rotated for good.
+   * The requests still count in the validator stats and refresh the country index,
+   * like any other request to the validators.
+   * @param profile Mode, hops, countries, lease duration, split tunnel rules and validators of the route
+   * @returns Promise resolving to the config files, commands and routes
+   */
+  async planRoute(profile: RouteProfile): Promise<DryRunPlan> {
+    const { simple, length, countries, leaseMinutes } = this.resolveProfile(profile);
+    const options: LeaseOptions = { validators: profile.validators || null, dryRun: true };
+    
+    // The current route is torn down first
+    const teardown = connectionHandler.planDisconnect();
+    let plan: DryRunPlan;
+    
+    if (simple) {
+      const chain = countries ? parseCountryChain(countries.join('|')) : ['any'];
+      const response = await tpnClient.getConfigFromChain(chain, leaseMinutes, [], options);
+      plan = await connectionHandler.planConnect(wireguardManager.parseTpnResponse(response, response.country || 'any'), profile.splitTunnel || null);
+    } else {
+      const circuit = await circuitBuilder.buildCircuit(length, countries, leaseMinutes, options);
+      if (!circuitBuilder.validateCircuit(circuit)) {
+        throw new Error('Invalid circuit, cannot create route');
+      }
+      plan = await connectionHandler.planCircuit(circuit, profile.splitTunnel || null);
+    }
+    
+    return { ...plan, commands: [...teardown.commands, ...plan.commands] };
+  }
+  
+  /**
+   * Describe what stopRoute() would do, without touching the system
+   * @returns Commands tearing down the route and releasing the kill switch
+   */
+  planStop(): DryRunPlan {
+    const plan = connectionHandler.planDisconnect();
+    if (getState().killSwitch || killSwitch.isActive()) {
+      plan.commands.push(...killSwitch.getDisableCommands());
+    }
+    return plan;
+  }
+  
+  /**
+   * Wrap a single connection in a one-node circuit for compatibility with circuit mode
+   * @param config Active WireGuard configuration
+   * @param requested Country or fallback chain the connection was asked for
+   * @returns Circuit containing only that configuration
+   */
+  private createSingleNodeCircuit(config: WireGuardConfig, requested?: string): Circuit {
+    return {
+      id: uuidv4(),
+      nodes: [{
+        id: uuidv4(),
+        config,
+        index: 0,
+        requested
+      }],
+      createdAt: new Date(),
+      expiresAt: new Date(config.expiresAt),
+      active: true
+    };
+  }
+  
+  /**
+   * Set the active circuit and persist it to the session state
+   * @param circuit Circuit to make active
+   */
+  private setActiveCircuit(circuit: Circuit): void {
+    this.activeCircuit = circuit;
+    updateState({ circuit, profile: this.profile });
+    if (this.monitorHealth) {
+      healthMonitor.start();
+    }
+  }
+  
+  /**
+   * Restore the active route from the persisted session state
+   * @param resumeTimers Also re-arm the refresh timers and monitor the tunnel health (long-running processes only)
+   * @returns Boolean indicating if a live route was restored
+   */
+  restoreState(resumeTimers: boolean = false): boolean {
+    if (resumeTimers) {
+      // Routes created later in this process are monitored too
+      this.monitorHealth = true;
+    }
+    if (this.activeCircuit) {
+      return true;
+    }
+    
+    const { circuit, killSwitch: killSwitchEngaged, profile } = getState();
+    const connected = connectionHandler.restoreState(resumeTimers);
+    
+    if (!connected && killSwitchEngaged && killSwitch.isActive()) {
+      // A crashed session left the kill switch blocking everything with no tunnel to use
+      logger.warn('Kill switch left behind by a session that is no longer running, restoring connectivity');
+      killSwitch.disable();
+      updateState({ killSwitch: false });
+    }
+    
+    if (!circuit) {
+      return false;
+    }
+    
+    if (!connected) {
+      // The tunnel is gone, so the recorded circuit is stale
+      logger.warn('Stale session state: recorded route is no longer up, clearing it');
+      clearState();
+      return false;
+    }
+    
+    // In simple mode the connection handler may have renewed the lease since the circuit was recorded
+    const activeConfig = connectionHandler.getActiveConfig();
+    if (circuit.nodes.length === 1 && activeConfig && circuit.nodes[0].config.id !== activeConfig.id) {
+      circuit.nodes[0].config = activeConfig;
+      circuit.expiresAt = new Date(activeConfig.expiresAt);
+    }
+    
+    this.activeCircuit = circuit;
+    if (profile) {
+      // The split tunnel rules were restored with the connection
+      this.profile = profile;
+      connectionHandler.setLeaseDuration(profile.leaseDuration || null);
+      setValidatorSubset(profile.validators || null);
+    }
+    logger.debug(`Restored route ${circuit.id} from session state`);
+    
+    if (resumeTimers) {
+      if (circuit.nodes.length > 1) {
+        this.setupRefreshTimer();
+      }
+      healthMonitor.start();
+    }
+    return true;
+  }
+  
+  /**
+   * Set up one timer per hop to renew its lease before it expires
    */
   private setupRefreshTimer(): void {
+    this.clearRefreshTimers();
     if (!this.activeCircuit) return;
     
-    // Clear any existing timer
-    if (this.circuitRefreshTimer) {
-      clearTimeout(this.circuitRefreshTimer);
-      this.circuitRefreshTimer = null;
+    for (const node of this.activeCircuit.nodes) {
+      // Calculate refresh time (1 minute before the hop's own expiry)
+      const expiresAt = this.getNodeExpiry(node);
+      if (expiresAt > Date.now()) {
+        this.scheduleHopRenewal(node, Math.max(0, expiresAt - Date.now() - 60000));
+      } else {
+        logger.warn(`Hop ${node.index + 1} expiry time is in the past, not setting refresh timer`);
+      }
+    }
+  }
+  
+  /**
+   * Renew one hop after a delay, retrying while its current lease is still valid.
+   * The whole circuit is rebuilt once the hop runs out of time.
+   * @param node Hop to renew
+   * @param delay Delay in milliseconds
+   */
+  private scheduleHopRenewal(node: CircuitNode, delay: number): void {
+    if (delay > MAX_TIMER_DELAY) {
+      // Too far for one timer, wait in steps
+      this.hopTimers.set(node.id, setTimeout(() => this.scheduleHopRenewal(node, delay - MAX_TIMER_DELAY), MAX_TIMER_DELAY));
+      return;
     }
     
-    // Calculate refresh time (1 minute before expiry)
-    const refreshTime = this.activeCircuit.expiresAt.getTime() - Date.now() - 60000;
-    
-    if (refreshTime > 0) {
-      logger.debug(`Setting up route refresh in ${Math.floor(refreshTime/60000)} minutes`);
-      this.circuitRefreshTimer = setTimeout(() => {
-        logger.info('Route is about to expire, refreshing...');
-        this.refreshRoute().catch(err => {
-          logger.error(`Failed to refresh route: ${err.message}`);
-        });
-      }, refreshTime);
-    } else {
-      logger.warn('Route expiry time is in the past, not setting refresh timer');
+    logger.debug(`Setting up renewal of hop ${node.index + 1} in ${Math.floor(delay / 60000)} minutes`);
+    this.hopTimers.set(node.id, setTimeout(async () => {
+      this.hopTimers.delete(node.id);
+      logger.info(`Lease of hop ${node.index + 1} is about to expire, renewing it...`);
+      if (await this.renewHop(node.index)) {
+        return;
+      }
+      
+      // The old lease keeps working until it expires, so there is still time to retry
+      const stillActive = this.activeCircuit?.nodes.some(hop => hop.id === node.id);
+      if (!stillActive) {
+        return;
+      }
+      if (this.getNodeExpiry(node) > Date.now() + HOP_RETRY_DELAY) {
+        logger.warn(`Renewal of hop ${node.index + 1} failed, retrying in ${HOP_RETRY_DELAY / 1000} seconds`);
+        this.scheduleHopRenewal(node, HOP_RETRY_DELAY);
+        return;
+      }
+      
+      logger.warn(`Hop ${node.index + 1} could not be renewed in time, rebuilding the circuit`);
+      this.rebuildCircuit().catch(err => {
+        logger.error(`Failed to rebuild circuit: ${err.message}`);
+      });
+    }, delay));
+  }
+  
+  /**
+   * Cancel every hop renewal timer
+   */
+  private clearRefreshTimers(): void {
+    for (const timer of this.hopTimers.values()) {
+      clearTimeout(timer);
     }
+    this.hopTimers.clear();
+  }
+  
+  /**
+   * Get when a hop's lease ends
+   * @param node Circuit hop
+   * @returns Unix time in milliseconds
+   */
+  private getNodeExpiry(node: CircuitNode): number {
+    return node.expiresAt || node.config.expiresAt;
   }
   
   /**
    * Stop the current routing circuit
+   * @param releaseKillSwitch Also remove the kill switch (false when a new route replaces this one)
    * @returns Promise resolving to boolean indicating success
    */
-  async stopRoute(): Promise<boolean> {
+  async stopRoute(releaseKillSwitch: boolean = true): Promise<boolean> {
+    // A new route, or none wanted any more: the lost one is not retried
+    this.clearRouteLoss();
+    
     if (!this.activeCircuit) {
       // No active circuit, nothing to stop
-      wireguardManager.cleanupAllInterfaces();
+      wireguardManager.cleanupManagedInterfaces();
+      this.clearRouteState(releaseKillSwitch);
       return true;
     }
     
+    healthMonitor.stop();
+    
     try {
-      // Clear any refresh timer
-      if (this.circuitRefreshTimer) {
-        clearTimeout(this.circuitRefreshTimer);
-        this.circuitRefreshTimer = null;
-      }
+      // Clear the hop renewal timers
+      this.clearRefreshTimers();
       
       // Disconnect from the VPN
       await connectionHandler.disconnect();
       
       // Ensure all interfaces are cleaned up
-      wireguardManager.cleanupAllInterfaces();
+      wireguardManager.cleanupManagedInterfaces();
       
       // Mark the circuit as inactive
       this.activeCircuit.active = false;
@@ -181,17 +462,64 @@ export class RouteManager extends EventEmitter {
       
       // Clear the active circuit
       this.activeCircuit = null;
+      this.clearRouteState(releaseKillSwitch);
       
       return true;
     } catch (error) {
       logger.error(`Failed to stop route: ${(error as Error).message}`);
       // Try to clean up anyway
-      wireguardManager.cleanupAllInterfaces();
+      wireguardManager.cleanupManagedInterfaces();
       this.activeCircuit = null;
+      this.clearRouteState(releaseKillSwitch);
       return false;
     }
   }
   
+  /**
+   * Clear the persisted route, keeping the kill switch engaged if asked to
+   * @param releaseKillSwitch Remove the kill switch rules as well
+   */
+  private clearRouteState(releaseKillSwitch: boolean): void {
+    if (!releaseKillSwitch && getConfig().killSwitch) {
+      // Keep blocking traffic until the replacement route is up
+      updateState({ circuit: null, activeConfig: null, interfaces: [] });
+      return;
+    }
+    
+    if (getState().killSwitch || killSwitch.isActive()) {
+      killSwitch.disable();
+    }
+    clearState();
+  }
+  
+  /**
+   * Turn the kill switch on, engaging it right away if a route is active
+   * @returns Promise resolving to boolean indicating success
+   */
+  async enableKillSwitch(): Promise<boolean> {
+    updateConfig({ killSwitch: true });
+    
+    if (!this.activeCircuit) {
+      logger.info('Kill switch enabled, it will engage with the next connection');
+      return true;
+    }
+    return await connectionHandler.applyKillSwitch();
+  }
+  
+  /**
+   * Turn the kill switch off and restore normal connectivity
+   * @returns Boolean indicating success
+   */
+  disableKillSwitch(): boolean {
+    updateConfig({ killSwitch: false });
+    
+    const success = killSwitch.disable();
+    if (getState().killSwitch) {
+      updateState({ killSwitch: false });
+    }
+    return success;
+  }
+  
   /**
    * Refresh the current route
    * @returns Promise resolving to boolean indicating success
@@ -204,18 +532,20 @@ export class RouteManager extends EventEmitter {
     
     try {
       // If simple mode (one node)
+      // Renewed in place, the circuit follows through the connection:refreshed event
       if (this.activeCircuit.nodes.length === 1) {
-        const country = this.activeCircuit.nodes[0].config.country || 'any';
-        return await connectionHandler.connectDirect(country, getConfig().defaultLeaseDuration);
+        return await connectionHandler.refreshConnection();
       } 
       // If advanced mode (multi-hop)
+      // Only the hop whose lease ends first is renewed, the others stay up
       else {
-        // Get the current circuit length and countries
-        const length = this.activeCircuit.nodes.length;
-        const countries = this.activeCircuit.nodes.map(node => node.config.country || 'any');
+        const next = [...this.activeCircuit.nodes].sort((a, b) => this.getNodeExpiry(a) - this.getNodeExpiry(b))[0];
+        if (await this.renewHop(next.index)) {
+          return true;
+        }
         
-        // Create a new route with the same parameters
-        return await this.createRoute(length, countries, false);
+        logger.warn(`Hop ${next.index + 1} could not be renewed, rebuilding the circuit`);
+        return await this.rebuildCircuit();
       }
     } catch (error) {
       logger.error(`Failed to refresh route: ${(error as Error).message}`);
@@ -223,6 +553,237 @@ export class RouteManager extends EventEmitter {
     }
   }
   
+  /**
+   * Replace the lease of one circuit hop in place, with the same country and circuit policy.
+   * The neighbouring hops keep their leases and tunnels. Emits circuit:hop-replaced.
+   * @param index Index of the hop
+   * @returns Promise resolving to boolean indicating success
+   */
+  async renewHop(index: number): Promise<boolean> {
+    const circuit = this.activeCircuit;
+    const previous = circuit?.nodes.find(node => node.index === index);
+    if (!circuit || !previous || circuit.nodes.length < 2) {
+      logger.warn(`No circuit hop ${index + 1} to renew`);
+      return false;
+    }
+    if (this.failingOver) {
+      // The failover replaces every hop anyway
+      return false;
+    }
+    
+    try {
+      const leaseMinutes = this.profile?.leaseDuration || getConfig().defaultLeaseDuration;
+      const node = await circuitBuilder.replaceHop(circuit, index, this.getRequestedCountry(previous), leaseMinutes);
+      
+      if (!(await connectionHandler.replaceHop(circuit, node))) {
+        if (node.guard) {
+          await guardManager.recordFailure(`new entry lease on ${previous.interfaceName} did not come up`);
+        }
+        return false;
+      }
+      
+      // Le circuit garde son identité, seul ce hop change
+      node.interfaceName = previous.interfaceName;
+      circuit.nodes = circuit.nodes.map(hop => hop.index === index ? node : hop);
+      circuit.expiresAt = new Date(Math.min(...circuit.nodes.map(hop => this.getNodeExpiry(hop))));
+      this.setActiveCircuit(circuit);
+      
+      const timer = this.hopTimers.get(previous.id);
+      if (timer) {
+        clearTimeout(timer);
+        this.hopTimers.delete(previous.id);
+      }
+      this.scheduleHopRenewal(node, Math.max(0, this.getNodeExpiry(node) - Date.now() - 60000));
+      
+      this.emit('circuit:hop-replaced', circuit, node, previous);
+      return true;
+    } catch (error) {
+      logger.error(`Failed to renew hop ${index + 1}: ${(error as Error).message}`);
+      return false;
+    }
+  }
+  
+  /**
+   * Get the country or fallback chain a hop was asked for
+   * @param node Circuit hop
+   * @returns Requested chain, or the hop's country for routes recorded without one
+   */
+  private getRequestedCountry(node: CircuitNode): string {
+    return node.requested || node.config.country || 'any';
+  }
+  
+  /**
+   * Rebuild the whole circuit through the countries requested for its hops
+   * @returns Promise resolving to boolean indicating success
+   */
+  private async rebuildCircuit(): Promise<boolean> {
+    if (!this.activeCircuit) {
+      return false;
+    }
+    
+    const nodes = [...this.activeCircuit.nodes].sort((a, b) => a.index - b.index);
+    const countries = nodes.map(node => this.getRequestedCountry(node));
+    return await this.createRoute(this.getRebuildProfile(nodes.length, countries));
+  }
+  
+  /**
+   * Reconnect, reusing the countries of the previous route unless a country is given
+   * @param country Optional country code for a direct connection
+   * @returns Promise resolving to boolean indicating success
+   */
+  async reconnect(country?: string): Promise<boolean> {
+    const previousCircuit = this.activeCircuit;
+    
+    // Stop any active route
+    await this.stopRoute(false);
+    
+    if (country) {
+      logger.info(`Reconnecting to VPN server in ${country}...`);
+      return await this.createDirectConnection(country);
+    }
+    
+    if (previousCircuit && previousCircuit.nodes.length > 1) {
+      const countries = [...previousCircuit.nodes]
+        .sort((a, b) => a.index - b.index)
+        .map(node => this.getRequestedCountry(node));
+      logger.info(`Rebuilding circuit with countries: ${countries.join(', ')}`);
+      return await this.createRoute(this.getRebuildProfile(countries.length, countries));
+    }
+    
+    const previousCountry = previousCircuit?.nodes[0] ? this.getRequestedCountry(previousCircuit.nodes[0]) : 'any';
+    logger.info(`Reconnecting to VPN server in ${previousCountry}...`);
+    return await this.createDirectConnection(previousCountry);
+  }
+  
+  /**
+   * Replace a route that stopped carrying traffic with fresh leases.
+   * A direct connection tries the same country first, then the next preferred country, then any.
+   * When nothing works the route is reported lost (route:lost) and tried again every minute.
+   * @param previousCircuit Route to replace, the active one by default
+   * @returns Promise resolving to boolean indicating success
+   */
+  async failover(previousCircuit: Circuit | null = this.activeCircuit): Promise<boolean> {
+    if (!previousCircuit || this.failingOver) {
+      return false;
+    }
+    
+    this.failingOver = true;
+    // Rebuilding stops the route and forgets the loss, keep it for the next retry
+    const previousLoss = this.routeLoss;
+    try {
+      const nodes = [...previousCircuit.nodes].sort((a, b) => a.index - b.index);
+      
+      if (nodes.length > 1) {
+        const countries = nodes.map(node => this.getRequestedCountry(node));
+        logger.warn(`Failing over: rebuilding circuit through ${countries.join(', ')}`);
+        if (await this.createRoute(this.getRebuildProfile(countries.length, countries))) {
+          this.emit('route:failover', this.activeCircuit);
+          return true;
+        }
+        
+        // Same countries did not work, let the builder pick any
+        logger.warn('Failing over: rebuilding circuit through any country');
+        if (await this.createRoute(this.getRebuildProfile(countries.length))) {
+          this.emit('route:failover', this.activeCircuit);
+          return true;
+        }
+        
+        logger.error('Failover failed, the circuit could not be rebuilt');
+        this.scheduleFailoverRetry(previousCircuit, 'the circuit could not be rebuilt', previousLoss);
+        return false;
+      }
+      
+      for (const country of this.getFailoverCountries(nodes[0] ? this.getRequestedCountry(nodes[0]) : 'any')) {
+        logger.warn(`Failing over to a new lease in ${country}...`);
+        if (await this.createDirectConnection(country)) {
+          this.emit('route:failover', this.activeCircuit);
+          return true;
+        }
+      }
+      
+      logger.error('Failover failed, no country could provide a working lease');
+      this.scheduleFailoverRetry(previousCircuit, 'no country could provide a working lease', previousLoss);
+      return false;
+    } finally {
+      this.failingOver = false;
+    }
+  }
+  
+  /**
+   * Record a route the failover could not replace and try again later.
+   * Emits route:lost on the first failure.
+   * @param circuit Route to replace
+   * @param reason Why the failover failed
+   * @param previousLoss Loss recorded by the previous attempts, if any
+   */
+  private scheduleFailoverRetry(circuit: Circuit, reason: string, previousLoss: RouteLoss | null): void {
+    const now = Date.now();
+    const attempts = (previousLoss?.attempts || 0) + 1;
+    this.routeLoss = {
+      lostAt: previousLoss?.lostAt || new Date(now).toISOString(),
+      reason,
+      attempts,
+      retryAt: new Date(now + FAILOVER_RETRY_DELAY).toISOString()
+    };
+    if (!previousLoss) {
+      this.emit('route:lost', circuit, this.routeLoss);
+    }
+    
+    logger.warn(`No route, trying again in ${FAILOVER_RETRY_DELAY / 1000} seconds (attempt ${attempts + 1})`);
+    this.failoverTimer = setTimeout(() => {
+      this.failoverTimer = null;
+      this.failover(circuit).catch(err => {
+        logger.error(`Failover failed: ${err.message}`);
+      });
+    }, FAILOVER_RETRY_DELAY);
+  }
+  
+  /**
+   * Forget a lost route and cancel its retry
+   */
+  private clearRouteLoss(): void {
+    if (this.failoverTimer) {
+      clearTimeout(this.failoverTimer);
+      this.failoverTimer = null;
+    }
+    this.routeLoss = null;
+  }
+  
+  /**
+   * List the countries to try when failing over a direct connection
+   * @param current Country or fallback chain of the failed connection
+   * @returns Current chain, then the preferred countries after its first one, then 'any'
+   */
+  private getFailoverCountries(current: string): string[] {
+    // Chained entries (US|CA) count as their countries in order
+    const preferredCountries = getConfig().preferredCountries.flatMap(parseCountryChain);
+    const start = preferredCountries.indexOf(parseCountryChain(current)[0]) + 1;
+    const next = [...preferredCountries.slice(start), ...preferredCountries.slice(0, start)];
+    return [...new Set([current, ...next, 'any'])];
+  }
+  
+  /**
+   * Get a snapshot of the current route
+   * @returns Promise resolving to the route status
+   */
+  async getStatus(): Promise<RouteStatus> {
+    const active = wireguardManager.isVpnActive();
+    const rules = connectionHandler.getSplitTunnelRules();
+    return {
+      active,
+      circuit: this.activeCircuit,
+      interfaceInfo: active ? await wireguardManager.getActiveInterfaceInfo() : null,
+      originalIp: connectionHandler.getOriginalIp(),
+      killSwitch: killSwitch.isActive(),
+      splitTunnel: active && splitTunnel.isActive(rules) ? rules : null,
+      routes: active ? connectionHandler.getRoutedPrefixes() : undefined,
+      health: active ? healthMonitor.getLastResult() : null,
+      profile: active ? this.profile?.name : undefined,
+      guard: guardManager.isEnabled() ? guardManager.getGuard() : undefined,
+      routeLoss: this.routeLoss
+    };
+  }
+  
   /**
    * Get the current active circuit
    * @returns The active circuit or null if none
@@ -258,48 +819,73 @@ export class RouteManager extends EventEmitter {
       // If simple mode (one node), just refresh with a new country
       if (this.activeCircuit.nodes.length === 1) {
         logger.info('In simple mode, changing exit node means creating a new connection');
-        const country = this.activeCircuit.nodes[0].config.country || 'any';
-        return await connectionHandler.connectDirect(country, getConfig().defaultLeaseDuration);
+        return await this.refreshRoute();
       }
       
-      // For multi-hop implementation (advanced mode)
-      logger.info('Changing exit node by refreshing the entire route');
-      return await this.refreshRoute();
+      // For multi-hop implementation (advanced mode), only the exit hop is replaced
+      const exit = this.activeCircuit.nodes.reduce((last, node) => node.index > last.index ? node : last);
+      logger.info(`Changing exit node by renewing hop ${exit.index + 1}`);
+      return await this.renewHop(exit.index);
     } catch (error) {
       logger.error(`Failed to change exit node: ${(error as Error).message}`);
       return false;
     }
   }
   
+  /**
+   * Connect with an existing WireGuard configuration, managed like a fetched lease
+   * @param config Parsed configuration, with its expiry and country
+   * @param splitTunnel Split tunnel rules for this route, null for the configured ones, undefined keeps the current ones
+   * @returns Promise resolving to boolean indicating success
+   */
+  async connectWithConfig(config: WireGuardConfig, splitTunnel?: SplitTunnelRules | null): Promise<boolean> {
+    try {
+      if (splitTunnel !== undefined) {
+        // A new connection leaves the profile of the previous route behind
+        this.applyProfile(null);
+        connectionHandler.setSplitTunnel(splitTunnel);
+      }
+      
+      // Clean up existing connections
+      await this.stopRoute(false);
+      
+      const success = await connectionHandler.connect(config);
+      if (success) {
+        this.setActiveCircuit(this.createSingleNodeCircuit(config));
+      }
+      
+      return success;
+    } catch (error) {
+      logger.error(`Failed to connect with the imported config: ${(error as Error).message}`);
+      return false;
+    }
+  }
+  
   /**
    * Create a direct VPN connection to a specific country
    * @param country Country code or 'any'
+   * @param splitTunnel Split tunnel rules for this route, null for the configured ones, undefined keeps the current ones
    * @returns Promise resolving to boolean indicating success
    */
-  async createDirectConnection(country: string = 'any'): Promise<boolean> {
+  async createDirectConnection(country: string = 'any', splitTunnel?: SplitTunnelRules | null): Promise<boolean> {
     try {
+      if (splitTunnel !== undefined) {
+        // A new connection leaves the profile of the previous route behind
+        this.applyProfile(null);
+        connectionHandler.setSplitTunnel(splitTunnel);
+      }
+      
       // Clean up existing connections
-      await this.stopRoute();
+      await this.stopRoute(false);
       
       // Create a direct connection
-      const success = await connectionHandler.connectDirect(country, getConfig().defaultLeaseDuration);
+      const success = await connectionHandler.connectDirect(country, this.profile?.leaseDuration || getConfig().defaultLeaseDuration);
       
       if (success) {
         // Create a "circuit" with a single node for compatibility
         const config = connectionHandler.getActiveConfig();
         if (config) {
-          const currentTime = Date.now();
-          this.activeCircuit = {
-            id: uuidv4(),
-            nodes: [{
-              id: uuidv4(),
-              config,
-              index: 0
-            }],
-            createdAt: new Date(currentTime),
-            expiresAt: new Date(config.expiresAt),
-            active: true
-          };
+          this.setActiveCircuit(this.createSingleNodeCircuit(config, country));
         }
       }
       
@@ -5,6 +5,7 @@ export interface TpnConfigResponse {
     peer_config: string;
     expires_at: number;
     country?: string;
+    validator?: string; // ip:port of the validator that answered, set by getConfigFromChain
   }
   
   export interface ValidatorEndpoint {
@@ -12,6 +13,28 @@ export interface TpnConfigResponse {
     port: number;
     isActive: boolean;
     lastChecked?: Date;
+    stats?: ValidatorStats;
+  }
+  
+  /**
+   * Source of validator endpoints for discovery
+   */
+  export interface ValidatorDiscoverySource {
+    name: string;
+    discover(): Promise<ValidatorEndpoint[]>;
+  }
+  
+  /**
+   * Request outcomes of a validator, used to score and back off
+   */
+  export interface ValidatorStats {
+    successCount: number;
+    failureCount: number;
+    consecutiveFailures: number;
+    latencyMs?: number; // Rolling average
+    lastError?: string;
+    lastSuccessAt?: number;
+    backoffUntil?: number; // Unix time in milliseconds
   }
   
   /**
@@ -29,16 +52,36 @@ export interface TpnConfigResponse {
     raw: string;
     expiresAt: number;
     country?: string;
+    verifiedCountry?: string; // Country of the exit IP (or endpoint) in the GeoIP database
     dns?: string; 
+    imported?: boolean; // Loaded from the user's own file, never replaced by a fresh lease
   }
   
   /**
    * Circuit routing types
    */
+  /**
+   * Per-interface overrides applied when a configuration is written to disk
+   */
+  export interface SaveConfigOptions {
+    interfaceName?: string;
+    allowedIPs?: string[];
+    fwMark?: number;
+    mtu?: number;
+    includeDns?: boolean;
+    omitListenPort?: boolean;
+    persistentKeepalive?: number;
+  }
+  
   export interface CircuitNode {
     id: string;
     config: WireGuardConfig;
     index: number;
+    interfaceName?: string;
+    validator?: string; // ip:port of the validator that issued the lease
+    guard?: boolean; // Entry hop leased from the persistent guard
+    requested?: string; // Country or fallback chain asked for this hop, e.g. "US|CA|any"
+    expiresAt?: number; // End of this hop's lease (ms), each hop is renewed on its own
   }
   
   export interface Circuit {
@@ -49,6 +92,316 @@ export interface TpnConfigResponse {
     active: boolean;
   }
   
+  /**
+   * Persisted session state
+   */
+  export interface ManagedInterface {
+    name: string;
+    configPath: string;
+    endpoint: string;
+    nodeId?: string;
+  }
+  
+  export interface SessionState {
+    circuit: Circuit | null;
+    activeConfig: WireGuardConfig | null;
+    interfaces: ManagedInterface[];
+    originalIp?: string;
+    killSwitch?: boolean;
+    splitTunnel?: SplitTunnelRules | null;
+    allowedIPs?: string[];
+    requestedCountry?: string | null; // Country or fallback chain of a direct connection, asked again on renewal
+    profile?: RouteProfile | null;
+    guard?: GuardNode | null; // Kept by clearState(), only replaced on rotation
+    updatedAt?: string;
+  }
+  
+  /**
+   * WireGuard interface information as reported by `wg show`
+   */
+  export interface InterfaceInfo {
+    name: string;
+    endpoint?: string;
+    publicKey?: string;
+    allowedIPs?: string;
+    lastHandshake?: string;
+  }
+  
+  /**
+   * Peer counters as reported by `wg show <iface> dump`
+   */
+  export interface PeerStats {
+    publicKey: string;
+    endpoint?: string;
+    latestHandshake: number; // Unix time in seconds, 0 if never
+    rxBytes: number;
+    txBytes: number;
+  }
+  
+  /**
+   * Outcome of one health check of a tunnel interface
+   */
+  export interface HealthCheckResult {
+    healthy: boolean;
+    interfaceName: string;
+    handshakeAge?: number; // Seconds
+    rxBytes?: number;
+    txBytes?: number;
+    probeOk?: boolean;
+    reason?: string;
+    failures: number; // Consecutive failed checks
+    checkedAt: string;
+  }
+  
+  /**
+   * Public addresses agreed on by the IP providers, per family
+   */
+  export interface PublicIpResult {
+    ipv4?: string;
+    ipv6?: string;
+  }
+  
+  export type IpChange = 'unchanged' | 'changed' | 'unknown';
+  
+  /**
+   * Leak test report
+   */
+  export interface LeakCheckResult {
+    name: string;
+    status: 'pass' | 'fail' | 'skip';
+    detail: string;
+  }
+  
+  export interface LeakTestReport {
+    passed: boolean;
+    interfaceName?: string;
+    checks: LeakCheckResult[];
+    checkedAt: string;
+  }
+  
+  /**
+   * Snapshot of the current route, shared by the CLI and the daemon
+   */
+  export interface RouteStatus {
+    active: boolean;
+    circuit: Circuit | null;
+    interfaceInfo: InterfaceInfo | null;
+    originalIp?: string;
+    killSwitch: boolean;
+    splitTunnel: SplitTunnelRules | null;
+    routes?: string[];
+    health?: HealthCheckResult | null;
+    profile?: string;
+    guard?: GuardNode | null;
+    routeLoss?: RouteLoss | null; // Set while the daemon retries a failed failover
+  }
+  
+  /**
+   * Route the failover could not replace, retried by the daemon
+   */
+  export interface RouteLoss {
+    lostAt: string;
+    reason: string;
+    attempts: number; // Failover attempts so far
+    retryAt: string;
+  }
+  
+  /**
+   * Outcome of a command that creates or replaces a route
+   */
+  export interface RouteResult {
+    success: boolean;
+    circuit: Circuit | null;
+  }
+  
+  /**
+   * What connect, start, stop or cleanup would do with --dry-run
+   */
+  export interface DryRunConfig {
+    interfaceName: string;
+    configPath: string;
+    country?: string;
+    endpoint: string;
+    expiresAt: number;
+    allowedIPs: string[];
+    config: string; // Final config text as saveConfig would write it, keys redacted
+  }
+  
+  export interface DryRunPlan {
+    configs: DryRunConfig[];
+    commands: string[]; // Privileged commands, in execution order
+    routes: string[];   // Routes and rules wg-quick installs from AllowedIPs
+  }
+  
+  /**
+   * Daemon control protocol (JSON-RPC 2.0, one message per line)
+   */
+  export interface RpcRequest {
+    jsonrpc: '2.0';
+    id: number | string;
+    method: string;
+    params?: Record<string, any>;
+  }
+  
+  export interface RpcResponse {
+    jsonrpc: '2.0';
+    id: number | string | null;
+    result?: any;
+    error?: {
+      code: number;
+      message: string;
+    };
+  }
+  
+  /**
+   * Traffic the kill switch lets through outside the tunnel
+   */
+  export interface KillSwitchEndpoint {
+    ip: string;
+    port: number;
+    protocol: 'tcp' | 'udp';
+  }
+  
+  export interface KillSwitchRules {
+    interfaces: string[];
+    endpoints: KillSwitchEndpoint[];
+    lanSubnets: string[];
+  }
+  
+  /**
+   * Split tunneling: CIDR prefixes, IP addresses or domain names.
+   * A non-empty include list routes only those through the tunnel.
+   */
+  export interface SplitTunnelRules {
+    include: string[];
+    exclude: string[];
+  }
+  
+  /**
+   * Tunnel health monitoring
+   */
+  export interface HealthCheckSettings {
+    enabled: boolean;
+    interval: number; // Seconds between checks
+    maxHandshakeAge: number; // Seconds before a handshake is considered stale
+    probeTarget: string; // URL fetched through the tunnel, empty to disable
+    probeTimeout: number; // Milliseconds
+    failureThreshold: number; // Consecutive failures before failing over
+  }
+  
+  /**
+   * Country index: the countries offered by each validator, persisted with a TTL
+   */
+  export interface CountryIndexSnapshot {
+    validators: Record<string, { countries: string[]; fetchedAt: number }>; // Keyed by ip:port
+  }
+  
+  export interface CountryIndexSettings {
+    ttl: number; // Seconds before a validator's country list is fetched again
+    concurrency: number; // Validators queried at the same time
+    timeout: number; // Milliseconds per request
+  }
+  
+  /**
+   * Offline GeoIP verification of the endpoint and exit IP
+   */
+  export interface GeoIpSettings {
+    database: string; // Path of a MaxMind .mmdb or CSV database, empty to disable
+    strictness: 'warn' | 'strict'; // strict refuses a connection in the wrong country
+  }
+  
+  /**
+   * Public IP detection
+   */
+  export interface IpResolverSettings {
+    providers: string[]; // URLs answering with the caller's address as plain text
+    timeout: number; // Milliseconds per provider
+    minAgreement: number; // Providers that must return the same address
+  }
+  
+  /**
+   * Probes used by the leak test, can point to local stand-ins
+   */
+  export interface LeakTestSettings {
+    dnsProbeHost: string; // Name resolved through the tunnel DNS
+    ipv6Probe: string; // IPv6 address whose route must not bypass the tunnel
+    resolvConf: string; // System resolver configuration
+  }
+  
+  /**
+   * Rules every circuit built must follow, checked hop by hop
+   */
+  export interface CircuitPolicySettings {
+    excludeCountries: string[]; // Never used for any hop
+    distinctCountries: boolean; // No country used twice in a circuit
+    separateGroups: string[]; // Jurisdiction groups two consecutive hops must not share
+    groups: Record<string, string[]>; // User-defined groups, added to the built-in ones
+    distinctValidators: boolean; // Each hop's lease comes from a different validator
+    distinctSubnets: boolean; // No two endpoints in the same IPv4 /24 (IPv6 /48)
+    maxAttempts: number; // Draws per hop before giving up
+  }
+  
+  /**
+   * Persistent entry node, reused as hop 1 of every circuit
+   */
+  export interface GuardSettings {
+    enabled: boolean;
+    country: string; // Entry country or fallback chain, e.g. "CH|IS|any"
+    rotationDays: number; // How long a guard is kept
+    maxFailures: number; // Consecutive failures before it is replaced
+  }
+  
+  /**
+   * Guard chosen by GuardManager
+   */
+  export interface GuardNode {
+    country: string;
+    validator: string; // ip:port
+    chosenAt: string; // ISO date
+    rotateAt: string; // ISO date
+    failures: number; // Consecutive failed leases or entry tunnels
+  }
+  
+  /**
+   * Validator discovery
+   */
+  export interface DiscoverySettings {
+    seedFile: string; // One ip[:port] per line, empty to disable
+    bootstrapUrl: string; // URL returning a validator list, empty to disable
+    peerExchange: boolean; // Ask known validators for the validators they know
+    minActiveValidators: number; // Discover automatically below this count, 0 to disable
+  }
+  
+  /**
+   * Named set of route settings, used by `start --profile`.
+   * Unset fields fall back to the application configuration.
+   */
+  export interface RouteProfile {
+    name?: string;                    // Unset for a route built from command-line options only
+    mode: 'simple' | 'circuit';
+    length?: number;                  // Hops in circuit mode
+    countries?: string[];             // Country per hop in circuit mode, country to connect to in simple mode
+    leaseDuration?: number;           // Minutes
+    splitTunnel?: SplitTunnelRules;
+    validators?: string[];            // ip:port of the validators to use, all of them if unset
+  }
+  
+  /**
+   * How the leases of a route are taken, when it differs from the route in use
+   */
+  export interface LeaseOptions {
+    validators?: string[] | null;     // ip:port of the validators to ask, null for all of them, the current route's if unset
+    dryRun?: boolean;                 // Planning only: the guard is used or chosen without saving anything about it
+  }
+  
+  /**
+   * Profiles file, stored next to the configuration
+   */
+  export interface ProfileStore {
+    profiles: Record<string, RouteProfile>;
+    defaultProfile: string | null;
+  }
+  
   /**
    * Application configuration
    */
@@ -59,4 +412,31 @@ export interface TpnConfigResponse {
     preferredCountries: string[];
     validators: ValidatorEndpoint[];
     logLevel: 'debug' | 'info' | 'warn' | 'error';
-  }
\ No newline at end of file
+    killSwitch: boolean;
+    lanSubnets: string[];
+    splitTunnel: SplitTunnelRules;
+    healthCheck: HealthCheckSettings;
+    discovery: DiscoverySettings;
+    countryIndex: CountryIndexSettings;
+    geoip: GeoIpSettings;
+    ipResolver: IpResolverSettings;
+    leakTest: LeakTestSettings;
+    circuitPolicy: CircuitPolicySettings;
+    guard: GuardSettings;
+  }
+  
+  /**
+   * Runtime schema of a configuration value, used by `config set` and TPN_ROUTER_* overrides
+   */
+  export type ConfigSchema =
+    | { type: 'number'; min: number; max: number; integer?: boolean }
+    | { type: 'boolean' }
+    | { type: 'string'; format?: 'url' | 'host' | 'ipv6' | 'path'; allowEmpty?: boolean }
+    | { type: 'enum'; values: readonly string[] }
+    | { type: 'country' } // ISO 3166-1 alpha-2 code, or 'any'
+    | { type: 'cidr' }
+    | { type: 'target' } // CIDR prefix, IP address or domain name
+    | { type: 'validator' }
+    | { type: 'array'; items: ConfigSchema; minItems?: number }
+    | { type: 'object'; fields: Record<string, ConfigSchema> }
+    | { type: 'record'; values: ConfigSchema }; // Object with free keys, e.g. named groups
\ No newline at end of file
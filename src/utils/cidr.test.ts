@@ -0,0 +1,84 @@
+import { describe, expect, it } from '@jest/globals';
+import { ipToInteger, subtractCidrs } from './cidr.js';
+
+describe('ipToInteger', () => {
+  it('converts IPv4 addresses', () => {
+    expect(ipToInteger('0.0.0.0')).toBe(0n);
+    expect(ipToInteger('10.0.0.1')).toBe(0x0a000001n);
+    expect(ipToInteger('255.255.255.255')).toBe(0xffffffffn);
+  });
+  
+  it('converts IPv6 addresses, compressed or not', () => {
+    expect(ipToInteger('::')).toBe(0n);
+    expect(ipToInteger('::1')).toBe(1n);
+    expect(ipToInteger('2001:db8::1')).toBe(0x20010db8000000000000000000000001n);
+    expect(ipToInteger('2001:db8:0:0:0:0:0:1')).toBe(ipToInteger('2001:db8::1'));
+    expect(ipToInteger('ffff:ffff:ffff:ffff:ffff:ffff:ffff:ffff')).toBe((1n << 128n) - 1n);
+  });
+  
+  it('converts IPv4-mapped IPv6 addresses', () => {
+    expect(ipToInteger('::ffff:1.2.3.4')).toBe(0xffff01020304n);
+  });
+  
+  it('rejects anything that is not an address', () => {
+    expect(() => ipToInteger('10.0.0.0/8')).toThrow('Invalid IP address');
+    expect(() => ipToInteger('256.0.0.1')).toThrow('Invalid IP address');
+    expect(() => ipToInteger('example.com')).toThrow('Invalid IP address');
+  });
+});
+
+describe('subtractCidrs', () => {
+  it('leaves prefixes without overlap untouched', () => {
+    expect(subtractCidrs(['10.0.0.0/8'], ['192.168.0.0/16'])).toEqual(['10.0.0.0/8']);
+    expect(subtractCidrs(['10.0.0.0/8'], [])).toEqual(['10.0.0.0/8']);
+  });
+  
+  it('clears the host bits of the prefixes', () => {
+    expect(subtractCidrs(['192.168.1.7/24'], [])).toEqual(['192.168.1.0/24']);
+  });
+  
+  it('splits the default IPv4 route around an excluded prefix', () => {
+    expect(subtractCidrs(['0.0.0.0/0'], ['10.0.0.0/8'])).toEqual([
+      '0.0.0.0/5',
+      '8.0.0.0/7',
+      '11.0.0.0/8',
+      '12.0.0.0/6',
+      '16.0.0.0/4',
+      '32.0.0.0/3',
+      '64.0.0.0/2',
+      '128.0.0.0/1',
+    ]);
+  });
+  
+  it('excludes a bare address as a host prefix', () => {
+    expect(subtractCidrs(['192.168.1.0/30'], ['192.168.1.1'])).toEqual(['192.168.1.0/32', '192.168.1.2/31']);
+  });
+  
+  it('drops a prefix that is fully excluded', () => {
+    expect(subtractCidrs(['10.0.0.0/8'], ['10.0.0.0/8'])).toEqual([]);
+    expect(subtractCidrs(['10.1.0.0/16'], ['10.0.0.0/8'])).toEqual([]);
+    expect(subtractCidrs(['10.0.0.0/8', '192.168.0.0/16'], ['0.0.0.0/0'])).toEqual([]);
+    expect(subtractCidrs(['2001:db8::/32'], ['::/0'])).toEqual([]);
+  });
+  
+  it('splits the default IPv6 route around an excluded prefix', () => {
+    expect(subtractCidrs(['::/0'], ['::/1'])).toEqual(['8000::/1']);
+    
+    const result = subtractCidrs(['::/0'], ['fd00::/8']);
+    expect(result).toHaveLength(8);
+    expect(result).not.toContain('fd00::/8');
+    expect(result).toContain('fe00::/7');
+    expect(result).toContain('fc00::/8');
+    expect(result).toContain('::/1');
+  });
+  
+  it('only subtracts prefixes of the same family', () => {
+    expect(subtractCidrs(['10.0.0.0/8'], ['::/0'])).toEqual(['10.0.0.0/8']);
+    expect(subtractCidrs(['0.0.0.0/0', '::/0'], ['0.0.0.0/0'])).toEqual(['::/0']);
+  });
+  
+  it('rejects invalid prefixes', () => {
+    expect(() => subtractCidrs(['10.0.0.0/33'], [])).toThrow('Invalid IP address or CIDR prefix');
+    expect(() => subtractCidrs(['0.0.0.0/0'], ['::/129'])).toThrow('Invalid IP address or CIDR prefix');
+  });
+});
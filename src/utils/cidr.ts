@@ -0,0 +1,191 @@
+import net from 'net';
+
+/**
+ * An IPv4 or IPv6 prefix
+ */
+interface Cidr {
+  family: 4 | 6;
+  base: bigint;
+  prefix: number;
+}
+
+/**
+ * Number of bits in an address of the given family
+ */
+function bitsOf(family: 4 | 6): number {
+  return family === 4 ? 32 : 128;
+}
+
+/**
+ * Convert an IP address to its integer value
+ */
+function ipToBigInt(ip: string): bigint {
+  if (net.isIPv4(ip)) {
+    return ip.split('.').reduce((acc, octet) => (acc << 8n) + BigInt(parseInt(octet, 10)), 0n);
+  }
+  
+  // Embedded IPv4 (::ffff:1.2.3.4) becomes two hextets
+  let address = ip;
+  const v4Match = address.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (v4Match) {
+    const v4 = ipToBigInt(v4Match[1]);
+    address = address.slice(0, -v4Match[1].length) + `${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+  }
+  
+  const [head, tail] = address.split('::');
+  const headParts = head ? head.split(':') : [];
+  const tailParts = tail !== undefined && tail !== '' ? tail.split(':') : [];
+  const missing = 8 - headParts.length - tailParts.length;
+  const hextets = tail !== undefined
+    ? [...headParts, ...Array(missing).fill('0'), ...tailParts]
+    : headParts;
+  
+  return hextets.reduce((acc, hextet) => (acc << 16n) + BigInt(parseInt(hextet, 16)), 0n);
+}
+
+/**
+ * Convert an integer value back to an IP address
+ */
+function bigIntToIp(value: bigint, family: 4 | 6): string {
+  if (family === 4) {
+    return [24n, 16n, 8n, 0n].map(shift => ((value >> shift) & 0xffn).toString()).join('.');
+  }
+  
+  const hextets: string[] = [];
+  for (let shift = 112n; shift >= 0n; shift -= 16n) {
+    hextets.push(((value >> shift) & 0xffffn).toString(16));
+  }
+  
+  // Compress the longest run of zero hextets
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let i = 0; i < hextets.length; i++) {
+    let length = 0;
+    while (i + length < hextets.length && hextets[i + length] === '0') length++;
+    if (length > bestLength && length > 1) {
+      bestStart = i;
+      bestLength = length;
+    }
+  }
+  if (bestStart < 0) {
+    return hextets.join(':');
+  }
+  const head = hextets.slice(0, bestStart).join(':');
+  const tail = hextets.slice(bestStart + bestLength).join(':');
+  return `${head}::${tail}`;
+}
+
+/**
+ * Check if a string is an IP address or CIDR prefix
+ * @param text Text to check
+ * @returns Boolean indicating if the text parses as a prefix
+ */
+export function isCidr(text: string): boolean {
+  const [ip, prefix] = text.trim().split('/');
+  const family = net.isIP(ip);
+  if (family === 0) return false;
+  if (prefix === undefined) return true;
+  const bits = parseInt(prefix, 10);
+  return /^\d+$/.test(prefix) && bits >= 0 && bits <= bitsOf(family as 4 | 6);
+}
+
+/**
+ * Parse an IP address or CIDR prefix, a bare address becomes a host prefix
+ */
+function parseCidr(text: string): Cidr {
+  if (!isCidr(text)) {
+    throw new Error(`Invalid IP address or CIDR prefix: ${text}`);
+  }
+  
+  const [ip, prefixText] = text.trim().split('/');
+  const family = net.isIP(ip) as 4 | 6;
+  const bits = bitsOf(family);
+  const prefix = prefixText === undefined ? bits : parseInt(prefixText, 10);
+  const hostBits = BigInt(bits - prefix);
+  
+  // Clear the host bits so 192.168.1.7/24 means 192.168.1.0/24
+  return { family, base: (ipToBigInt(ip) >> hostBits) << hostBits, prefix };
+}
+
+/**
+ * Format a prefix as text
+ */
+function formatCidr(cidr: Cidr): string {
+  return `${bigIntToIp(cidr.base, cidr.family)}/${cidr.prefix}`;
+}
+
+/**
+ * Check if prefix a contains prefix b
+ */
+function contains(a: Cidr, b: Cidr): boolean {
+  if (a.family !== b.family || a.prefix > b.prefix) return false;
+  const hostBits = BigInt(bitsOf(a.family) - a.prefix);
+  return (b.base >> hostBits) === (a.base >> hostBits);
+}
+
+/**
+ * Remove the excluded prefixes from one prefix by splitting it in halves
+ */
+function subtractFrom(cidr: Cidr, exclude: Cidr[]): Cidr[] {
+  const relevant = exclude.filter(e => contains(cidr, e) || contains(e, cidr));
+  
+  if (relevant.length === 0) return [cidr];
+  if (relevant.some(e => contains(e, cidr))) return [];
+  
+  const prefix = cidr.prefix + 1;
+  const halfSize = 1n << BigInt(bitsOf(cidr.family) - prefix);
+  const lower: Cidr = { family: cidr.family, base: cidr.base, prefix };
+  const upper: Cidr = { family: cidr.family, base: cidr.base + halfSize, prefix };
+  
+  return [...subtractFrom(lower, relevant), ...subtractFrom(upper, relevant)];
+}
+
+/**
+ * Get the first and last address of a prefix as integers
+ * @param text IP address or CIDR prefix
+ * @returns Address family and inclusive integer range
+ */
+export function cidrRange(text: string): { family: 4 | 6; start: bigint; end: bigint } {
+  const cidr = parseCidr(text);
+  const size = 1n << BigInt(bitsOf(cidr.family) - cidr.prefix);
+  return { family: cidr.family, start: cidr.base, end: cidr.base + size - 1n };
+}
+
+/**
+ * Convert an IP address to an integer
+ * @param ip IPv4 or IPv6 address
+ * @returns Integer value of the address
+ */
+export function ipToInteger(ip: string): bigint {
+  if (net.isIP(ip) === 0) {
+    throw new Error(`Invalid IP address: ${ip}`);
+  }
+  return ipToBigInt(ip);
+}
+
+/**
+ * Check if an address falls inside one of the given prefixes
+ * @param prefixes Prefixes in CIDR notation (IPv4 and IPv6 may be mixed)
+ * @param ip IP address to look for
+ * @returns Boolean indicating if a prefix contains the address
+ */
+export function cidrsContain(prefixes: string[], ip: string): boolean {
+  if (!isCidr(ip)) return false;
+  const host = parseCidr(ip);
+  return prefixes.some(prefix => contains(parseCidr(prefix), host));
+}
+
+/**
+ * Compute the smallest list of prefixes covering the included ranges minus the excluded ones
+ * @param include Included prefixes (IPv4 and IPv6 may be mixed)
+ * @param exclude Excluded prefixes or addresses
+ * @returns Resulting prefixes in CIDR notation
+ */
+export function subtractCidrs(include: string[], exclude: string[]): string[] {
+  const excluded = exclude.map(parseCidr);
+  
+  return include
+    .map(parseCidr)
+    .flatMap(cidr => subtractFrom(cidr, excluded))
+    .map(formatCidr);
+}
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { ValidatorEndpoint } from '../types/index.js';
+import {
+  getActiveValidators,
+  getConfig,
+  getValidatorKey,
+  getValidatorScore,
+  recordValidatorFailure,
+  recordValidatorSuccess,
+  resetConfig,
+  updateConfig,
+} from './config.js';
+
+const NOW = Date.parse('2026-01-01T00:00:00Z');
+
+/**
+ * Validator with the given stats
+ */
+function validator(port: number, stats?: Partial<NonNullable<ValidatorEndpoint['stats']>>): ValidatorEndpoint {
+  return {
+    ip: '10.0.0.1',
+    port,
+    isActive: true,
+    stats: stats && { successCount: 0, failureCount: 0, consecutiveFailures: 0, ...stats },
+  };
+}
+
+/**
+ * Get a validator of the stored configuration by port
+ */
+function stored(port: number): ValidatorEndpoint {
+  return getConfig().validators.find(v => v.port === port)!;
+}
+
+describe('getValidatorScore', () => {
+  it('gives unknown validators an even chance', () => {
+    expect(getValidatorScore(validator(3000))).toBe(0.5);
+  });
+  
+  it('ranks reliable and fast validators first', () => {
+    const validators = [
+      validator(3001, { successCount: 2, failureCount: 8, latencyMs: 100 }),
+      validator(3002),
+      validator(3003, { successCount: 20, failureCount: 0, latencyMs: 1000 }),
+      validator(3004, { successCount: 20, failureCount: 0, latencyMs: 50 }),
+      validator(3005, { successCount: 19, failureCount: 1, latencyMs: 50 }),
+    ];
+    const ranked = [...validators].sort((a, b) => getValidatorScore(b) - getValidatorScore(a)).map(v => v.port);
+    expect(ranked).toEqual([3004, 3005, 3002, 3003, 3001]);
+  });
+  
+  it('does not sink a validator for a single failure', () => {
+    expect(getValidatorScore(validator(3000, { successCount: 0, failureCount: 1, latencyMs: 0 }))).toBeCloseTo(1 / 3);
+    expect(getValidatorScore(validator(3000, { successCount: 9, failureCount: 1, latencyMs: 0 })))
+      .toBeGreaterThan(getValidatorScore(validator(3000)));
+  });
+});
+
+describe('validator backoff', () => {
+  let now = NOW;
+  
+  beforeEach(() => {
+    now = NOW;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    updateConfig({ validators: [validator(3000), validator(3001), validator(3002)] });
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+    resetConfig();
+  });
+  
+  it('backs off from a failing validator, doubling up to 30 minutes', () => {
+    const key = getValidatorKey(validator(3001));
+    const backoffs: number[] = [];
+    for (let i = 0; i < 8; i++) {
+      recordValidatorFailure(key, 'timeout');
+      backoffs.push(stored(3001).stats!.backoffUntil! - now);
+    }
+    expect(backoffs.map(ms => ms / 1000)).toEqual([30, 60, 120, 240, 480, 960, 1800, 1800]);
+    expect(stored(3001)).toMatchObject({ isActive: false, stats: { failureCount: 8, consecutiveFailures: 8, lastError: 'timeout' } });
+  });
+  
+  it('keys the stats by ip:port, other ports of the host are not affected', () => {
+    recordValidatorFailure(getValidatorKey(validator(3001)), 'timeout');
+    expect(stored(3000).stats).toBeUndefined();
+    expect(stored(3002).stats).toBeUndefined();
+    expect(getActiveValidators().map(v => v.port)).toEqual([3000, 3002]);
+  });
+  
+  it('retries a validator once its backoff expired', () => {
+    recordValidatorFailure(getValidatorKey(validator(3001)), 'timeout');
+    now += 29 * 1000;
+    expect(getActiveValidators().map(v => v.port)).not.toContain(3001);
+    now += 2 * 1000;
+    expect(getActiveValidators().map(v => v.port)).toContain(3001);
+  });
+  
+  it('clears the backoff and the failure streak on success', () => {
+    const key = getValidatorKey(validator(3001));
+    recordValidatorFailure(key, 'timeout');
+    recordValidatorFailure(key, 'timeout');
+    recordValidatorSuccess(key, 200);
+    expect(stored(3001)).toMatchObject({ isActive: true, stats: { successCount: 1, failureCount: 2, consecutiveFailures: 0, latencyMs: 200 } });
+    expect(stored(3001).stats!.backoffUntil).toBeUndefined();
+    expect(getActiveValidators().map(v => v.port)).toEqual([3000, 3001, 3002]);
+    
+    // The next failure starts again from the shortest backoff
+    recordValidatorFailure(key, 'timeout');
+    expect(stored(3001).stats!.backoffUntil! - now).toBe(30 * 1000);
+  });
+  
+  it('orders validators by score as their stats change', () => {
+    recordValidatorSuccess(getValidatorKey(validator(3000)), 800);
+    recordValidatorSuccess(getValidatorKey(validator(3002)), 40);
+    recordValidatorFailure(getValidatorKey(validator(3001)), 'timeout');
+    now += 60 * 1000;
+    
+    const ranked = getActiveValidators().sort((a, b) => getValidatorScore(b) - getValidatorScore(a)).map(v => v.port);
+    expect(ranked).toEqual([3002, 3000, 3001]);
+  });
+});
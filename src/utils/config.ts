@@ -1,4 +1,5 @@
-import { AppConfig, ValidatorEndpoint } from '../types/index.js';
+import { AppConfig, ValidatorEndpoint, ValidatorStats } from '../types/index.js';
+import { CONFIG_SCHEMA, getEnvName, getKeySchema, listKeys, parseValue, validateValue } from './configSchema.js';
 
 // Default validator endpoints - these are examples and would be updated
 const DEFAULT_VALIDATORS: ValidatorEndpoint[] = [
@@ -14,8 +15,70 @@ const DEFAULT_CONFIG: AppConfig = {
   preferredCountries: [], // No preference by default
   validators: DEFAULT_VALIDATORS,
   logLevel: 'info',
+  killSwitch: false, // Opt-in
+  lanSubnets: [], // LAN ranges reachable while the kill switch is on
+  splitTunnel: { include: [], exclude: [] }, // Full tunnel by default
+  healthCheck: {
+    enabled: true,
+    interval: 30, // 30 seconds
+    maxHandshakeAge: 180, // WireGuard rejects sessions older than 3 minutes
+    probeTarget: '', // No probe by default
+    probeTimeout: 5000, // 5 seconds
+    failureThreshold: 3,
+  },
+  discovery: {
+    seedFile: '', // No seed file by default
+    bootstrapUrl: '', // No bootstrap service by default
+    peerExchange: true,
+    minActiveValidators: 2,
+  },
+  countryIndex: {
+    ttl: 300, // 5 minutes
+    concurrency: 4,
+    timeout: 5000, // 5 seconds per validator
+  },
+  geoip: {
+    database: '', // No GeoIP check by default
+    strictness: 'warn',
+  },
+  ipResolver: {
+    providers: [
+      'https://icanhazip.com',
+      'https://api64.ipify.org',
+      'https://ifconfig.me/ip',
+      'https://ipinfo.io/ip',
+    ],
+    timeout: 3000, // 3 seconds per provider
+    minAgreement: 2,
+  },
+  leakTest: {
+    dnsProbeHost: 'example.com',
+    ipv6Probe: '2001:4860:4860::8888', // Any global IPv6 address
+    resolvConf: '/etc/resolv.conf',
+  },
+  circuitPolicy: {
+    excludeCountries: [],
+    distinctCountries: true, // Pas de US -> US -> US
+    separateGroups: [], // e.g. ['fourteen-eyes']
+    groups: {},
+    distinctValidators: false, // Needs as many active validators as hops
+    distinctSubnets: true,
+    maxAttempts: 5,
+  },
+  guard: {
+    enabled: false,
+    country: 'any',
+    rotationDays: 30,
+    maxFailures: 3,
+  },
 };
 
+// Validator backoff: doubles on each consecutive failure, up to the maximum
+const VALIDATOR_BACKOFF_BASE = 30 * 1000; // 30 seconds
+const VALIDATOR_BACKOFF_MAX = 30 * 60 * 1000; // 30 minutes
+// Weight of the latest sample in the rolling latency
+const LATENCY_SMOOTHING = 0.3;
+
 // Importation correcte de conf avec ESM
 import Conf from 'conf';
 
@@ -24,23 +87,145 @@ const configStore = new Conf({
   defaults: DEFAULT_CONFIG,
 });
 
+// ip:port of the validators the current route may use, null for all of them
+let validatorSubset: string[] | null = null;
+// Values of the TPN_ROUTER_* variables by dotted key, parsed on first use
+let envValues: [string, unknown][] | null = null;
+
+/**
+ * Read a dotted key from an object
+ */
+function getPath(object: any, key: string): any {
+  return key.split('.').reduce((value, part) => value === undefined ? undefined : value[part], object);
+}
+
+/**
+ * Get the TPN_ROUTER_* environment variables currently set
+ * @returns Environment variable name by dotted key
+ */
+export function getEnvOverrides(): Record<string, string> {
+  const overrides: Record<string, string> = {};
+  for (const key of listKeys()) {
+    const name = getEnvName(key);
+    if (process.env[name] !== undefined) {
+      overrides[key] = name;
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Parse the TPN_ROUTER_* environment variables, once per process: the environment does not change under it
+ * @returns Value by dotted key
+ * @throws Error if a variable is invalid
+ */
+function getEnvValues(): [string, unknown][] {
+  if (!envValues) {
+    envValues = Object.entries(getEnvOverrides()).map(([key, name]) => {
+      const schema = getKeySchema(key)!;
+      const value = parseValue(name, schema, process.env[name] as string);
+      const errors = validateValue(name, schema, value);
+      if (errors.length > 0) {
+        throw new Error(`Invalid environment override: ${errors.join('; ')}`);
+      }
+      return [key, value];
+    });
+  }
+  return envValues;
+}
+
 /**
- * Get the current application configuration
+ * Get the current application configuration, TPN_ROUTER_* environment variables taking precedence
  */
 export function getConfig(): AppConfig {
+  // Conf reads the file on every access, the object is ours to change
+  const config = configStore.store as any;
+  for (const [key, value] of getEnvValues()) {
+    const parts = key.split('.');
+    const parent = parts.slice(0, -1).reduce((object, part) => object[part] = { ...object[part] }, config);
+    // Callers may change what they get, the parsed value stays as it is
+    parent[parts[parts.length - 1]] = structuredClone(value);
+  }
+  return config as AppConfig;
+}
+
+/**
+ * Get the saved configuration, without the environment overrides.
+ * Read-modify-write updates start from it so an override is never saved.
+ */
+function getStoredConfig(): AppConfig {
   return configStore.store as AppConfig;
 }
 
 /**
  * Update the application configuration
+ * @throws Error listing every invalid value, nothing is saved in that case
  */
 export function updateConfig(partialConfig: Partial<AppConfig>): AppConfig {
-  const currentConfig = getConfig();
-  const updatedConfig = { ...currentConfig, ...partialConfig };
+  const errors = Object.entries(partialConfig).flatMap(([key, value]) => {
+    const schema = CONFIG_SCHEMA[key as keyof AppConfig];
+    return schema ? validateValue(key, schema, value) : [`${key} is not a known setting`];
+  });
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration: ${errors.join('; ')}`);
+  }
+  
+  // Environment overrides only apply to the running process, they are never saved
+  const updatedConfig = { ...(configStore.store as AppConfig), ...partialConfig };
   configStore.store = updatedConfig;
   return updatedConfig;
 }
 
+/**
+ * Get one setting
+ * @param key Dotted key, e.g. "healthCheck.interval"
+ * @returns Current value, environment overrides included
+ */
+export function getConfigValue(key: string): unknown {
+  if (!getKeySchema(key)) {
+    throw new Error(`Unknown setting '${key}', see 'tpn-router config list'`);
+  }
+  return getPath(getConfig(), key);
+}
+
+/**
+ * Change one setting from its text form
+ * @param key Dotted key, e.g. "healthCheck.interval"
+ * @param text New value; lists are comma-separated or JSON, objects are JSON
+ * @returns The value saved
+ * @throws Error if the key is unknown or the value invalid
+ */
+export function setConfigValue(key: string, text: string): unknown {
+  const schema = getKeySchema(key);
+  if (!schema) {
+    throw new Error(`Unknown setting '${key}', see 'tpn-router config list'`);
+  }
+  
+  const value = parseValue(key, schema, text);
+  const errors = validateValue(key, schema, value);
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+  
+  configStore.set(key, value);
+  return value;
+}
+
+/**
+ * Restore the default value of one setting
+ * @param key Dotted key, e.g. "healthCheck.interval"
+ * @returns The default value
+ */
+export function unsetConfigValue(key: string): unknown {
+  if (!getKeySchema(key)) {
+    throw new Error(`Unknown setting '${key}', see 'tpn-router config list'`);
+  }
+  
+  const value = structuredClone(getPath(DEFAULT_CONFIG, key));
+  configStore.set(key, value);
+  return value;
+}
+
 /**
  * Reset configuration to defaults
  */
@@ -52,13 +237,15 @@ export function resetConfig(): void {
  * Add a validator to the list
  */
 export function addValidator(validator: ValidatorEndpoint): ValidatorEndpoint[] {
-  const config = getConfig();
+  const config = getStoredConfig();
   // Check if validator already exists
-  const existingIndex = config.validators.findIndex((v: ValidatorEndpoint) => v.ip === validator.ip);
+  const existingIndex = config.validators.findIndex((v: ValidatorEndpoint) =>
+    v.ip === validator.ip && v.port === validator.port
+  );
   
   if (existingIndex >= 0) {
-    // Update existing validator
-    config.validators[existingIndex] = validator;
+    // Update existing validator, keeping its history
+    config.validators[existingIndex] = { stats: config.validators[existingIndex].stats, ...validator };
   } else {
     // Add new validator
     config.validators.push(validator);
@@ -69,19 +256,124 @@ export function addValidator(validator: ValidatorEndpoint): ValidatorEndpoint[]
 }
 
 /**
- * Get active validators
+ * Restrict the validators used by the current route, for profiles with a validator subset
+ * @param addresses ip:port of the validators to use, null or empty for all of them
+ */
+export function setValidatorSubset(addresses: string[] | null): void {
+  validatorSubset = addresses && addresses.length > 0 ? addresses : null;
+}
+
+/**
+ * Whether a validator belongs to a validator subset
+ * @param validator Validator endpoint
+ * @param subset ip:port of the validators to use, null or empty for all of them (the current route's by default)
+ */
+export function isInValidatorSubset(validator: ValidatorEndpoint, subset: string[] | null = validatorSubset): boolean {
+  return !subset || subset.length === 0 ||
+    subset.includes(`${validator.ip}:${validator.port}`) || subset.includes(`[${validator.ip}]:${validator.port}`);
+}
+
+/**
+ * Get validators that can be used now: active ones, and inactive ones whose backoff has expired
+ * @param subset ip:port of the validators to use, null or empty for all of them (the current route's by default)
  */
-export function getActiveValidators(): ValidatorEndpoint[] {
+export function getActiveValidators(subset: string[] | null = validatorSubset): ValidatorEndpoint[] {
   const config = getConfig();
-  return config.validators.filter((v: ValidatorEndpoint) => v.isActive);
+  const now = Date.now();
+  return config.validators.filter((v: ValidatorEndpoint) => {
+    if (!isInValidatorSubset(v, subset)) {
+      return false;
+    }
+    if (v.stats?.backoffUntil && v.stats.backoffUntil > now) {
+      return false;
+    }
+    return v.isActive || !!v.stats?.backoffUntil;
+  });
+}
+
+/**
+ * Get the key identifying a validator, two validators may share a host on different ports
+ * @param validator Validator endpoint
+ * @returns Key in ip:port form
+ */
+export function getValidatorKey(validator: ValidatorEndpoint): string {
+  return `${validator.ip}:${validator.port}`;
+}
+
+/**
+ * Score a validator from its success rate and latency, between 0 and 1
+ */
+export function getValidatorScore(validator: ValidatorEndpoint): number {
+  const stats = validator.stats;
+  if (!stats) {
+    return 0.5; // Unknown validators get an even chance
+  }
+  
+  // Smoothed success rate, a single failure does not sink a validator
+  const successRate = (stats.successCount + 1) / (stats.successCount + stats.failureCount + 2);
+  // Faster validators weigh more, a 1 second latency halves the score
+  const latencyFactor = stats.latencyMs !== undefined ? 1000 / (1000 + stats.latencyMs) : 0.5;
+  return successRate * latencyFactor;
+}
+
+/**
+ * Record a successful request to a validator
+ * @param key Validator key, from getValidatorKey()
+ * @param latencyMs Duration of the request
+ */
+export function recordValidatorSuccess(key: string, latencyMs: number): void {
+  updateValidatorStats(key, (validator, stats) => {
+    stats.successCount++;
+    stats.consecutiveFailures = 0;
+    stats.latencyMs = stats.latencyMs === undefined
+      ? latencyMs
+      : Math.round(stats.latencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING);
+    stats.lastSuccessAt = Date.now();
+    delete stats.backoffUntil;
+    validator.isActive = true;
+  });
+}
+
+/**
+ * Record a failed request to a validator and back off from it
+ * @param key Validator key, from getValidatorKey()
+ * @param error Error message
+ */
+export function recordValidatorFailure(key: string, error: string): void {
+  updateValidatorStats(key, (validator, stats) => {
+    stats.failureCount++;
+    stats.consecutiveFailures++;
+    stats.lastError = error;
+    const backoff = Math.min(VALIDATOR_BACKOFF_BASE * 2 ** (stats.consecutiveFailures - 1), VALIDATOR_BACKOFF_MAX);
+    stats.backoffUntil = Date.now() + backoff;
+    validator.isActive = false;
+  });
+}
+
+/**
+ * Apply a change to the stats of a validator and persist it
+ */
+function updateValidatorStats(key: string, update: (validator: ValidatorEndpoint, stats: ValidatorStats) => void): void {
+  const config = getStoredConfig();
+  const validator = config.validators.find((v: ValidatorEndpoint) => getValidatorKey(v) === key);
+  
+  if (validator) {
+    const stats: ValidatorStats = validator.stats || { successCount: 0, failureCount: 0, consecutiveFailures: 0 };
+    update(validator, stats);
+    validator.stats = stats;
+    validator.lastChecked = new Date();
+    updateConfig({ validators: config.validators });
+  }
 }
 
 /**
  * Mark a validator as active or inactive
+ * @param key Validator key, from getValidatorKey()
+ * @param isActive New status
  */
-export function updateValidatorStatus(ip: string, isActive: boolean): void {
-  const config = getConfig();
-  const validator = config.validators.find((v: ValidatorEndpoint) => v.ip === ip);
+export function updateValidatorStatus(key: string, isActive: boolean): void {
+  const config = getStoredConfig();
+  const validator = config.validators.find((v: ValidatorEndpoint) => getValidatorKey(v) === key);
   
   if (validator) {
     validator.isActive = isActive;
@@ -0,0 +1,130 @@
+import { describe, expect, it } from '@jest/globals';
+import { ConfigSchema } from '../types/index.js';
+import { getEnvName, getKeySchema, parseValue, validateValue } from './configSchema.js';
+
+/**
+ * Get the schema of a key that must exist
+ */
+function schemaOf(key: string): ConfigSchema {
+  const schema = getKeySchema(key);
+  if (!schema) {
+    throw new Error(`No schema for ${key}`);
+  }
+  return schema;
+}
+
+/**
+ * Parse then validate a value the way `config set` and the environment overrides do
+ */
+function check(key: string, text: string): { value: unknown; errors: string[] } {
+  const schema = schemaOf(key);
+  const value = parseValue(key, schema, text);
+  return { value, errors: validateValue(key, schema, value) };
+}
+
+describe('getKeySchema', () => {
+  it('resolves dotted keys and refuses unknown ones', () => {
+    expect(getKeySchema('healthCheck.interval')).toEqual({ type: 'number', min: 5, max: 3600, integer: true });
+    expect(getKeySchema('healthCheck.unknown')).toBeUndefined();
+    expect(getKeySchema('logLevel.debug')).toBeUndefined();
+  });
+  
+  it('names the environment override of a key', () => {
+    expect(getEnvName('healthCheck.maxHandshakeAge')).toBe('TPN_ROUTER_HEALTH_CHECK_MAX_HANDSHAKE_AGE');
+  });
+});
+
+describe('parseValue', () => {
+  it('coerces numbers', () => {
+    expect(check('defaultLeaseDuration', ' 30 ')).toEqual({ value: 30, errors: [] });
+    expect(parseValue('defaultLeaseDuration', schemaOf('defaultLeaseDuration'), '')).toBeNaN();
+  });
+  
+  it('coerces booleans from the usual spellings', () => {
+    const schema = schemaOf('killSwitch');
+    expect(['true', 'YES', 'on', '1'].map(text => parseValue('killSwitch', schema, text))).toEqual([true, true, true, true]);
+    expect(['false', 'No', 'OFF', '0'].map(text => parseValue('killSwitch', schema, text))).toEqual([false, false, false, false]);
+    expect(() => parseValue('killSwitch', schema, 'maybe')).toThrow("killSwitch must be true or false, got 'maybe'");
+  });
+  
+  it('normalises country chains', () => {
+    expect(check('guard.country', ' us | ca | ANY ')).toEqual({ value: 'US|CA|any', errors: [] });
+  });
+  
+  it('reads validators as ip:port, [v6]:port, a bare ip or JSON', () => {
+    const schema = schemaOf('validators');
+    expect(parseValue('validators', schema, '10.0.0.1:4000, [2001:db8::1]:3001, 10.0.0.2')).toEqual([
+      { ip: '10.0.0.1', port: 4000, isActive: true },
+      { ip: '2001:db8::1', port: 3001, isActive: true },
+      { ip: '10.0.0.2', port: 3000, isActive: true },
+    ]);
+    expect(parseValue('validators', schema, '[{"ip":"10.0.0.1","port":3000,"isActive":false}]')).toEqual([
+      { ip: '10.0.0.1', port: 3000, isActive: false },
+    ]);
+  });
+  
+  it('splits comma-separated lists', () => {
+    expect(check('preferredCountries', 'nl, BE,,')).toEqual({ value: ['NL', 'BE'], errors: [] });
+    expect(check('lanSubnets', '10.0.0.0/8,fd00::/8')).toEqual({ value: ['10.0.0.0/8', 'fd00::/8'], errors: [] });
+  });
+  
+  it('refuses malformed JSON with the key in the message', () => {
+    expect(() => parseValue('healthCheck', schemaOf('healthCheck'), '{enabled: true}')).toThrow('healthCheck is not valid JSON');
+    expect(() => parseValue('validators', schemaOf('validators'), '[{')).toThrow('validators is not valid JSON');
+  });
+});
+
+describe('validateValue', () => {
+  it('rejects numbers that are not numbers, not whole or out of range', () => {
+    expect(check('defaultLeaseDuration', 'ten').errors).toEqual(['defaultLeaseDuration must be a number']);
+    expect(check('defaultLeaseDuration', '').errors).toEqual(['defaultLeaseDuration must be a number']);
+    expect(check('defaultLeaseDuration', '1.5').errors).toEqual(['defaultLeaseDuration must be a whole number']);
+    expect(check('defaultLeaseDuration', '0').errors).toEqual(['defaultLeaseDuration must be between 1 and 1440, got 0']);
+    expect(validateValue('defaultLeaseDuration', schemaOf('defaultLeaseDuration'), '5')).toEqual(['defaultLeaseDuration must be a number']);
+  });
+  
+  it('only accepts the listed values of an enum', () => {
+    expect(check('logLevel', 'debug').errors).toEqual([]);
+    expect(check('logLevel', 'loud').errors).toEqual(['logLevel must be one of debug, info, warn, error, got "loud"']);
+  });
+  
+  it('rejects unknown countries, in a chain too', () => {
+    expect(check('guard.country', 'XX').errors).toHaveLength(1);
+    expect(check('guard.country', 'US|XX|any').errors).toHaveLength(1);
+    expect(check('guard.country', 'any').errors).toEqual([]);
+    // Stored values are checked as they are, without the normalisation of parseValue
+    expect(validateValue('guard.country', schemaOf('guard.country'), 'us')).toHaveLength(1);
+  });
+  
+  it('rejects invalid prefixes and targets', () => {
+    expect(check('lanSubnets', '10.0.0.0/33').errors).toEqual(['lanSubnets[0] must be an IP address or CIDR prefix, got "10.0.0.0/33"']);
+    expect(check('splitTunnel.include', '10.0.0.0/8,example.com').errors).toEqual([]);
+    expect(check('splitTunnel.include', 'not a host').errors).toHaveLength(1);
+  });
+  
+  it('checks every field of a validator', () => {
+    expect(check('validators', '[{"ip":"","port":70000,"isActive":"yes"}]').errors).toEqual([
+      'validators[0].ip must be an IP address or host name',
+      'validators[0].port must be between 1 and 65535, got 70000',
+      'validators[0].isActive must be true or false',
+    ]);
+  });
+  
+  it('reports unknown and missing fields of an object', () => {
+    const errors = check('guard', '{"enabled":true,"country":"any","rotationDays":30,"maxFailures":3,"extra":1}').errors;
+    expect(errors).toEqual(['guard.extra is not a known setting']);
+    expect(check('guard', '{"enabled":true}').errors).toContain('guard.rotationDays must be a number');
+  });
+  
+  it('enforces the minimum size of lists', () => {
+    expect(check('ipResolver.providers', '[]').errors).toEqual(['ipResolver.providers needs at least 1 entries']);
+    expect(check('circuitPolicy.groups', '{"mine":[]}').errors).toEqual(['circuitPolicy.groups.mine needs at least 1 entries']);
+  });
+  
+  it('checks string formats and emptiness', () => {
+    expect(check('healthCheck.probeTarget', '').errors).toEqual([]);
+    expect(check('healthCheck.probeTarget', 'ftp://example.com').errors).toHaveLength(1);
+    expect(check('leakTest.dnsProbeHost', '').errors).toEqual(['leakTest.dnsProbeHost must not be empty']);
+    expect(check('leakTest.ipv6Probe', '10.0.0.1').errors).toHaveLength(1);
+  });
+});
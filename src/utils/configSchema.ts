@@ -0,0 +1,326 @@
+import net from 'net';
+import { AppConfig, ConfigSchema } from '../types/index.js';
+import { isCidr } from './cidr.js';
+import { isCountryCode, parseCountryChain } from './countries.js';
+
+// Timeouts and intervals share the same bounds
+const TIMEOUT_MS: ConfigSchema = { type: 'number', min: 100, max: 60000, integer: true };
+
+/**
+ * Schema of AppConfig, every key `config set` accepts
+ */
+export const CONFIG_SCHEMA: Record<keyof AppConfig, ConfigSchema> = {
+  defaultCircuitLength: { type: 'number', min: 2, max: 10, integer: true },
+  refreshInterval: { type: 'number', min: 1000, max: 3600000, integer: true },
+  defaultLeaseDuration: { type: 'number', min: 1, max: 1440, integer: true },
+  preferredCountries: { type: 'array', items: { type: 'country' } },
+  validators: { type: 'array', items: { type: 'validator' } },
+  logLevel: { type: 'enum', values: ['debug', 'info', 'warn', 'error'] },
+  killSwitch: { type: 'boolean' },
+  lanSubnets: { type: 'array', items: { type: 'cidr' } },
+  splitTunnel: {
+    type: 'object',
+    fields: {
+      include: { type: 'array', items: { type: 'target' } },
+      exclude: { type: 'array', items: { type: 'target' } },
+    },
+  },
+  healthCheck: {
+    type: 'object',
+    fields: {
+      enabled: { type: 'boolean' },
+      interval: { type: 'number', min: 5, max: 3600, integer: true },
+      maxHandshakeAge: { type: 'number', min: 60, max: 3600, integer: true },
+      probeTarget: { type: 'string', format: 'url', allowEmpty: true },
+      probeTimeout: TIMEOUT_MS,
+      failureThreshold: { type: 'number', min: 1, max: 100, integer: true },
+    },
+  },
+  discovery: {
+    type: 'object',
+    fields: {
+      seedFile: { type: 'string', format: 'path', allowEmpty: true },
+      bootstrapUrl: { type: 'string', format: 'url', allowEmpty: true },
+      peerExchange: { type: 'boolean' },
+      minActiveValidators: { type: 'number', min: 0, max: 100, integer: true },
+    },
+  },
+  countryIndex: {
+    type: 'object',
+    fields: {
+      ttl: { type: 'number', min: 0, max: 86400, integer: true },
+      concurrency: { type: 'number', min: 1, max: 64, integer: true },
+      timeout: TIMEOUT_MS,
+    },
+  },
+  geoip: {
+    type: 'object',
+    fields: {
+      database: { type: 'string', format: 'path', allowEmpty: true },
+      strictness: { type: 'enum', values: ['warn', 'strict'] },
+    },
+  },
+  ipResolver: {
+    type: 'object',
+    fields: {
+      providers: { type: 'array', items: { type: 'string', format: 'url' }, minItems: 1 },
+      timeout: TIMEOUT_MS,
+      minAgreement: { type: 'number', min: 1, max: 10, integer: true },
+    },
+  },
+  leakTest: {
+    type: 'object',
+    fields: {
+      dnsProbeHost: { type: 'string', format: 'host' },
+      ipv6Probe: { type: 'string', format: 'ipv6' },
+      resolvConf: { type: 'string', format: 'path' },
+    },
+  },
+  circuitPolicy: {
+    type: 'object',
+    fields: {
+      excludeCountries: { type: 'array', items: { type: 'country' } },
+      distinctCountries: { type: 'boolean' },
+      separateGroups: { type: 'array', items: { type: 'string' } },
+      groups: { type: 'record', values: { type: 'array', items: { type: 'country' }, minItems: 1 } },
+      distinctValidators: { type: 'boolean' },
+      distinctSubnets: { type: 'boolean' },
+      maxAttempts: { type: 'number', min: 1, max: 20, integer: true },
+    },
+  },
+  guard: {
+    type: 'object',
+    fields: {
+      enabled: { type: 'boolean' },
+      country: { type: 'country' },
+      rotationDays: { type: 'number', min: 1, max: 365, integer: true },
+      maxFailures: { type: 'number', min: 1, max: 20, integer: true },
+    },
+  },
+};
+
+/**
+ * Get the schema of a configuration key
+ * @param key Dotted key, e.g. "healthCheck.interval"
+ * @returns Schema, or undefined for an unknown key
+ */
+export function getKeySchema(key: string): ConfigSchema | undefined {
+  let schema: ConfigSchema = { type: 'object', fields: CONFIG_SCHEMA };
+  for (const part of key.split('.')) {
+    if (schema.type !== 'object' || !Object.prototype.hasOwnProperty.call(schema.fields, part)) {
+      return undefined;
+    }
+    schema = schema.fields[part];
+  }
+  return schema;
+}
+
+/**
+ * List every settable key, objects expanded to their fields
+ * @returns Dotted keys in schema order
+ */
+export function listKeys(): string[] {
+  const keys: string[] = [];
+  const walk = (fields: Record<string, ConfigSchema>, prefix: string) => {
+    for (const [name, schema] of Object.entries(fields)) {
+      if (schema.type === 'object') {
+        walk(schema.fields, `${prefix}${name}.`);
+      } else {
+        keys.push(`${prefix}${name}`);
+      }
+    }
+  };
+  walk(CONFIG_SCHEMA, '');
+  return keys;
+}
+
+/**
+ * Get the environment variable overriding a key
+ * @param key Dotted key, e.g. "healthCheck.interval"
+ * @returns Variable name, e.g. TPN_ROUTER_HEALTH_CHECK_INTERVAL
+ */
+export function getEnvName(key: string): string {
+  return 'TPN_ROUTER_' + key.split('.')
+    .map(part => part.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase())
+    .join('_');
+}
+
+/**
+ * Check a host name
+ */
+function isHostname(text: string): boolean {
+  return text.length <= 253 && /^(?=.{1,253}$)([a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*\.?$/.test(text);
+}
+
+/**
+ * Check a value against a schema
+ * @param key Dotted key, used in the messages
+ * @param schema Schema of the value
+ * @param value Value to check
+ * @returns Error messages, empty if the value is valid
+ */
+export function validateValue(key: string, schema: ConfigSchema, value: unknown): string[] {
+  switch (schema.type) {
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return [`${key} must be a number`];
+      }
+      if (schema.integer && !Number.isInteger(value)) {
+        return [`${key} must be a whole number`];
+      }
+      if (value < schema.min || value > schema.max) {
+        return [`${key} must be between ${schema.min} and ${schema.max}, got ${value}`];
+      }
+      return [];
+    }
+    
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${key} must be true or false`];
+    
+    case 'enum':
+      return typeof value === 'string' && schema.values.includes(value)
+        ? []
+        : [`${key} must be one of ${schema.values.join(', ')}, got ${JSON.stringify(value)}`];
+    
+    case 'string': {
+      if (typeof value !== 'string') {
+        return [`${key} must be a string`];
+      }
+      if (value === '') {
+        return schema.allowEmpty ? [] : [`${key} must not be empty`];
+      }
+      if (schema.format === 'url' && !/^https?:\/\/[^\s/]+/.test(value)) {
+        return [`${key} must be an http(s) URL, got '${value}'`];
+      }
+      if (schema.format === 'host' && !isHostname(value) && !net.isIP(value)) {
+        return [`${key} must be a host name or IP address, got '${value}'`];
+      }
+      if (schema.format === 'ipv6' && !net.isIPv6(value)) {
+        return [`${key} must be an IPv6 address, got '${value}'`];
+      }
+      return [];
+    }
+    
+    case 'country': {
+      // A single country, or a fallback chain such as US|CA|any
+      const chain = typeof value === 'string' ? value.split('|') : [];
+      return chain.length > 0 && chain.every(country => country === 'any' || isCountryCode(country))
+        ? []
+        : [`${key} must be an ISO 3166-1 alpha-2 country code (e.g. NL), 'any', or a fallback chain such as US|CA|any, got ${JSON.stringify(value)}`];
+    }
+    
+    case 'cidr':
+      return typeof value === 'string' && isCidr(value)
+        ? []
+        : [`${key} must be an IP address or CIDR prefix, got ${JSON.stringify(value)}`];
+    
+    case 'target':
+      return typeof value === 'string' && (isCidr(value) || isHostname(value))
+        ? []
+        : [`${key} must be a CIDR prefix, IP address or domain name, got ${JSON.stringify(value)}`];
+    
+    case 'validator': {
+      const validator = value as Record<string, unknown>;
+      if (!validator || typeof validator !== 'object') {
+        return [`${key} must be a validator object with ip, port and isActive`];
+      }
+      const errors: string[] = [];
+      if (typeof validator.ip !== 'string' || (!net.isIP(validator.ip) && !isHostname(validator.ip))) {
+        errors.push(`${key}.ip must be an IP address or host name`);
+      }
+      errors.push(...validateValue(`${key}.port`, { type: 'number', min: 1, max: 65535, integer: true }, validator.port));
+      errors.push(...validateValue(`${key}.isActive`, { type: 'boolean' }, validator.isActive));
+      return errors;
+    }
+    
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [`${key} must be a list`];
+      }
+      if (schema.minItems && value.length < schema.minItems) {
+        return [`${key} needs at least ${schema.minItems} entries`];
+      }
+      return value.flatMap((item, index) => validateValue(`${key}[${index}]`, schema.items, item));
+    }
+    
+    case 'record': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return [`${key} must be an object`];
+      }
+      return Object.entries(value as Record<string, unknown>)
+        .flatMap(([name, item]) => validateValue(`${key}.${name}`, schema.values, item));
+    }
+    
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return [`${key} must be an object`];
+      }
+      const object = value as Record<string, unknown>;
+      const unknown = Object.keys(object).filter(name => !(name in schema.fields));
+      return [
+        ...unknown.map(name => `${key}.${name} is not a known setting`),
+        ...Object.entries(schema.fields).flatMap(([name, field]) => validateValue(`${key}.${name}`, field, object[name])),
+      ];
+    }
+  }
+}
+
+/**
+ * Parse a value given on the command line or in an environment variable
+ * @param key Dotted key, used in the messages
+ * @param schema Schema of the value
+ * @param text Raw text; lists are comma-separated or JSON, objects are JSON
+ * @returns Parsed value, not yet validated
+ */
+export function parseValue(key: string, schema: ConfigSchema, text: string): unknown {
+  const raw = text.trim();
+  
+  switch (schema.type) {
+    case 'number':
+      return raw === '' ? NaN : Number(raw);
+    
+    case 'boolean': {
+      const lower = raw.toLowerCase();
+      if (['true', 'yes', 'on', '1'].includes(lower)) return true;
+      if (['false', 'no', 'off', '0'].includes(lower)) return false;
+      throw new Error(`${key} must be true or false, got '${raw}'`);
+    }
+    
+    case 'country':
+      return parseCountryChain(raw).join('|');
+    
+    case 'validator': {
+      if (raw.startsWith('{')) {
+        return parseJson(key, raw);
+      }
+      // ip:port, [v6]:port, or a bare ip on the default port
+      const match = raw.match(/^\[([^\]]+)\]:(\d+)$/) || raw.match(/^([^:]+):(\d+)$/);
+      return { ip: match ? match[1] : raw, port: match ? parseInt(match[2], 10) : 3000, isActive: true };
+    }
+    
+    case 'array':
+      if (raw.startsWith('[')) {
+        return parseJson(key, raw);
+      }
+      return raw.split(',').map(item => item.trim()).filter(item => item)
+        .map((item, index) => parseValue(`${key}[${index}]`, schema.items, item));
+    
+    case 'object':
+    case 'record':
+      return parseJson(key, raw);
+    
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Parse JSON with an error naming the key
+ */
+function parseJson(key: string, text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new Error(`${key} is not valid JSON: ${(error as Error).message}`);
+  }
+}
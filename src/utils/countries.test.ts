@@ -0,0 +1,31 @@
+import { describe, expect, it } from '@jest/globals';
+import { isCountryCode, parseCountryChain } from './countries.js';
+
+describe('parseCountryChain', () => {
+  it('splits a chain in order, upper-casing the codes', () => {
+    expect(parseCountryChain('fr|BE|nl')).toEqual(['FR', 'BE', 'NL']);
+    expect(parseCountryChain('US,CA')).toEqual(['US', 'CA']);
+  });
+  
+  it("keeps 'any' in lower case, wherever it is", () => {
+    expect(parseCountryChain('any')).toEqual(['any']);
+    expect(parseCountryChain('US|ANY')).toEqual(['US', 'any']);
+    expect(parseCountryChain('Any|DE')).toEqual(['any', 'DE']);
+  });
+  
+  it('ignores blanks and empty entries', () => {
+    expect(parseCountryChain(' us |  | ca | any ')).toEqual(['US', 'CA', 'any']);
+  });
+  
+  it("falls back to 'any' for an empty chain", () => {
+    expect(parseCountryChain('')).toEqual(['any']);
+    expect(parseCountryChain(' | ,')).toEqual(['any']);
+  });
+  
+  it('leaves unknown codes for the caller to reject', () => {
+    expect(parseCountryChain('xx|us')).toEqual(['XX', 'US']);
+    expect(isCountryCode('XX')).toBe(false);
+    expect(isCountryCode('US')).toBe(true);
+    expect(isCountryCode('us')).toBe(false);
+  });
+});
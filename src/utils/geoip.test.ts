@@ -0,0 +1,102 @@
+import { describe, expect, it } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { lookupCountry } from './geoip.js';
+
+/**
+ * Path of a database under fixtures/geoip
+ */
+function fixture(name: string): string {
+  return fileURLToPath(new URL(`./fixtures/geoip/${name}`, import.meta.url));
+}
+
+describe('lookupCountry in a MaxMind DB', () => {
+  // IPv6 tree with 24-bit records: 2001:db8::/32 FR, 1.2.3.0/24 DE,
+  // 10.0.0.0/8 with a registered country only (CH), 192.0.2.0/24 pointing to the FR country
+  const v6 = fixture('country-v6.mmdb');
+  // IPv4 tree with 28-bit records: 198.51.100.0/24 NL, 203.0.113.0/25 'be'
+  const v4 = fixture('country-v4.mmdb');
+
+  it('finds IPv6 addresses and the IPv4 subtree of an IPv6 database', () => {
+    expect(lookupCountry(v6, '2001:db8::1')).toBe('FR');
+    expect(lookupCountry(v6, '2001:db8:ffff::1')).toBe('FR');
+    expect(lookupCountry(v6, '1.2.3.4')).toBe('DE');
+  });
+
+  it('follows pointers in the data section', () => {
+    expect(lookupCountry(v6, '192.0.2.55')).toBe('FR');
+  });
+
+  it('falls back to the registered country', () => {
+    expect(lookupCountry(v6, '10.9.8.7')).toBe('CH');
+  });
+
+  it('returns undefined for addresses without data', () => {
+    expect(lookupCountry(v6, '2001:db9::1')).toBeUndefined();
+    expect(lookupCountry(v6, '1.2.4.4')).toBeUndefined();
+  });
+
+  it('reads 28-bit records, upper-casing the country', () => {
+    expect(lookupCountry(v4, '198.51.100.7')).toBe('NL');
+    expect(lookupCountry(v4, '203.0.113.1')).toBe('BE');
+    expect(lookupCountry(v4, '203.0.113.200')).toBeUndefined();
+    expect(lookupCountry(v4, '2001:db8::1')).toBeUndefined();
+  });
+
+  it('rejects invalid addresses and files that are not MaxMind DBs', () => {
+    expect(() => lookupCountry(v6, 'example.com')).toThrow('Invalid IP address: example.com');
+
+    const notMmdb = path.join(os.tmpdir(), `tpn-router-geoip-${process.pid}.mmdb`);
+    fs.writeFileSync(notMmdb, 'not a database');
+    try {
+      expect(() => lookupCountry(notMmdb, '1.2.3.4')).toThrow('is not a MaxMind DB file');
+    } finally {
+      fs.rmSync(notMmdb);
+    }
+  });
+});
+
+describe('lookupCountry in a CSV database', () => {
+  it('reads network,country prefixes, quoted or not', () => {
+    const csv = fixture('networks.csv');
+    expect(lookupCountry(csv, '192.0.2.1')).toBe('JP');
+    expect(lookupCountry(csv, '2001:db8:100:ff::1')).toBe('SE');
+    expect(lookupCountry(csv, '198.51.100.127')).toBe('KR');
+    expect(lookupCountry(csv, '198.51.100.128')).toBeUndefined();
+  });
+
+  it('reads start_ip,end_ip,country ranges, bounds included', () => {
+    const csv = fixture('ranges.csv');
+    expect(lookupCountry(csv, '10.0.0.0')).toBe('AU');
+    expect(lookupCountry(csv, '10.0.0.255')).toBe('AU');
+    expect(lookupCountry(csv, '10.0.1.127')).toBe('NZ');
+    expect(lookupCountry(csv, '10.0.1.128')).toBeUndefined();
+    expect(lookupCountry(csv, '172.16.0.9')).toBeUndefined();
+    expect(lookupCountry(csv, '172.16.0.15')).toBe('CA');
+    expect(lookupCountry(csv, '2001:db8::abcd')).toBe('MX');
+    // IPv6 ranges never match IPv4 addresses of the same value
+    expect(lookupCountry(csv, '0.0.0.1')).toBeUndefined();
+  });
+
+  it('reads GeoLite2 blocks through the Locations CSV next to them', () => {
+    const csv = fixture('geolite2/GeoLite2-Country-Blocks-IPv4.csv');
+    expect(lookupCountry(csv, '203.0.113.9')).toBe('NL');
+    // Without a geoname id the registered country is used
+    expect(lookupCountry(csv, '198.51.100.9')).toBe('CH');
+    // Anonymous proxies have no country
+    expect(lookupCountry(csv, '192.0.2.9')).toBeUndefined();
+  });
+
+  it('refuses GeoLite2 blocks without their Locations CSV', () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'tpn-router-geoip-'));
+    const blocks = path.join(directory, 'GeoLite2-Country-Blocks-IPv4.csv');
+    fs.copyFileSync(fixture('geolite2/GeoLite2-Country-Blocks-IPv4.csv'), blocks);
+    try {
+      expect(() => lookupCountry(blocks, '203.0.113.9')).toThrow('GeoLite2 Locations CSV not found');
+    } finally {
+      fs.rmSync(directory, { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,304 @@
+import fs from 'fs';
+import path from 'path';
+import net from 'net';
+import { cidrRange, ipToInteger } from './cidr.js';
+
+// Marks the start of the metadata section at the end of a .mmdb file
+const MMDB_METADATA_MARKER = Buffer.from([0xab, 0xcd, 0xef, ...Buffer.from('MaxMind.com')]);
+// Gap between the search tree and the data section of a .mmdb file
+const MMDB_DATA_SEPARATOR = 16;
+
+/**
+ * Country lookup in a loaded database
+ */
+interface GeoIpDatabase {
+  lookup(ip: string): string | undefined;
+}
+
+/**
+ * Country range of a CSV database
+ */
+interface CountryRange {
+  family: 4 | 6;
+  start: bigint;
+  end: bigint;
+  country: string;
+}
+
+// Databases stay loaded for the life of the process
+const databases = new Map<string, GeoIpDatabase>();
+
+/**
+ * Look up the country of an IP address in a local GeoIP database
+ * @param databasePath Path of a MaxMind .mmdb file or a CSV file
+ * @param ip IPv4 or IPv6 address
+ * @returns ISO country code, or undefined if the address is not in the database
+ */
+export function lookupCountry(databasePath: string, ip: string): string | undefined {
+  if (net.isIP(ip) === 0) {
+    throw new Error(`Invalid IP address: ${ip}`);
+  }
+  
+  let database = databases.get(databasePath);
+  if (!database) {
+    database = databasePath.toLowerCase().endsWith('.csv')
+      ? loadCsvDatabase(databasePath)
+      : loadMmdbDatabase(databasePath);
+    databases.set(databasePath, database);
+  }
+  
+  return database.lookup(ip)?.toUpperCase();
+}
+
+/**
+ * Load a MaxMind DB file (GeoLite2/GeoIP2 Country or City)
+ */
+function loadMmdbDatabase(databasePath: string): GeoIpDatabase {
+  const buffer = fs.readFileSync(databasePath);
+  
+  const markerIndex = buffer.lastIndexOf(MMDB_METADATA_MARKER);
+  if (markerIndex < 0) {
+    throw new Error(`${databasePath} is not a MaxMind DB file`);
+  }
+  
+  const metadata = decodeMmdb(buffer, markerIndex + MMDB_METADATA_MARKER.length, markerIndex + MMDB_METADATA_MARKER.length).value;
+  const nodeCount: number = metadata.node_count;
+  const recordSize: number = metadata.record_size;
+  const ipVersion: number = metadata.ip_version;
+  if (![24, 28, 32].includes(recordSize)) {
+    throw new Error(`Unsupported MaxMind DB record size: ${recordSize}`);
+  }
+  
+  const nodeBytes = recordSize / 4;
+  const dataSectionStart = nodeCount * nodeBytes + MMDB_DATA_SEPARATOR;
+  
+  // Read the left (0) or right (1) record of a node
+  const readRecord = (node: number, bit: number): number => {
+    const offset = node * nodeBytes;
+    if (recordSize === 24) {
+      return buffer.readUIntBE(offset + bit * 3, 3);
+    }
+    if (recordSize === 32) {
+      return buffer.readUInt32BE(offset + bit * 4);
+    }
+    // 28-bit records share the middle byte: left takes its high nibble, right its low one
+    const middle = buffer[offset + 3];
+    return bit === 0
+      ? ((middle & 0xf0) << 20) | buffer.readUIntBE(offset, 3)
+      : ((middle & 0x0f) << 24) | buffer.readUIntBE(offset + 4, 3);
+  };
+  
+  // Walk the tree from a node along the bits of an address
+  const walk = (start: number, value: bigint, bits: number): number => {
+    let node = start;
+    for (let i = bits - 1; i >= 0 && node < nodeCount; i--) {
+      node = readRecord(node, Number((value >> BigInt(i)) & 1n));
+    }
+    return node;
+  };
+  
+  // IPv4 addresses live under ::/96 in IPv6 databases
+  const ipv4Start = ipVersion === 6 ? walk(0, 0n, 96) : 0;
+  
+  return {
+    lookup(ip: string): string | undefined {
+      const family = net.isIP(ip);
+      if (family === 6 && ipVersion === 4) {
+        return undefined;
+      }
+      
+      const record = family === 4
+        ? walk(ipv4Start, ipToInteger(ip), 32)
+        : walk(0, ipToInteger(ip), 128);
+      if (record <= nodeCount) {
+        return undefined; // No data for this address
+      }
+      
+      const offset = dataSectionStart + (record - nodeCount - MMDB_DATA_SEPARATOR);
+      const data = decodeMmdb(buffer, offset, dataSectionStart).value;
+      return data?.country?.iso_code || data?.registered_country?.iso_code;
+    }
+  };
+}
+
+/**
+ * Decode one value of the MaxMind DB data format
+ * @param buffer Whole database
+ * @param offset Offset of the value
+ * @param base Offset that pointers are relative to
+ * @returns Decoded value and offset of the next value
+ */
+function decodeMmdb(buffer: Buffer, offset: number, base: number): { value: any; next: number } {
+  const control = buffer[offset++];
+  let type = control >> 5;
+  
+  // Pointers carry their size in the control byte
+  if (type === 1) {
+    const sizeBits = (control >> 3) & 0x3;
+    const high = control & 0x7;
+    let pointer: number;
+    if (sizeBits === 0) {
+      pointer = (high << 8) | buffer[offset];
+    } else if (sizeBits === 1) {
+      pointer = ((high << 16) | buffer.readUInt16BE(offset)) + 2048;
+    } else if (sizeBits === 2) {
+      pointer = ((high << 24) | buffer.readUIntBE(offset, 3)) + 526336;
+    } else {
+      pointer = buffer.readUInt32BE(offset);
+    }
+    return { value: decodeMmdb(buffer, base + pointer, base).value, next: offset + sizeBits + 1 };
+  }
+  
+  if (type === 0) {
+    type = 7 + buffer[offset++];
+  }
+  
+  let size = control & 0x1f;
+  if (size === 29) {
+    size = 29 + buffer[offset++];
+  } else if (size === 30) {
+    size = 285 + buffer.readUInt16BE(offset);
+    offset += 2;
+  } else if (size === 31) {
+    size = 65821 + buffer.readUIntBE(offset, 3);
+    offset += 3;
+  }
+  
+  switch (type) {
+    case 2: // UTF-8 string
+      return { value: buffer.toString('utf8', offset, offset + size), next: offset + size };
+    case 3: // Double
+      return { value: buffer.readDoubleBE(offset), next: offset + 8 };
+    case 4: // Bytes
+      return { value: buffer.subarray(offset, offset + size), next: offset + size };
+    case 5: // Unsigned integers
+    case 6:
+    case 9:
+    case 10: {
+      let value = 0n;
+      for (let i = 0; i < size; i++) {
+        value = (value << 8n) | BigInt(buffer[offset + i]);
+      }
+      return { value: value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value, next: offset + size };
+    }
+    case 7: { // Map
+      const map: Record<string, any> = {};
+      for (let i = 0; i < size; i++) {
+        const key = decodeMmdb(buffer, offset, base);
+        const entry = decodeMmdb(buffer, key.next, base);
+        map[key.value] = entry.value;
+        offset = entry.next;
+      }
+      return { value: map, next: offset };
+    }
+    case 8: // Signed 32-bit integer, possibly shortened
+      return { value: size === 0 ? 0 : buffer.readIntBE(offset, size), next: offset + size };
+    case 11: { // Array
+      const array: any[] = [];
+      for (let i = 0; i < size; i++) {
+        const entry = decodeMmdb(buffer, offset, base);
+        array.push(entry.value);
+        offset = entry.next;
+      }
+      return { value: array, next: offset };
+    }
+    case 14: // Boolean, the value is the size
+      return { value: size !== 0, next: offset };
+    case 15: // Float
+      return { value: buffer.readFloatBE(offset), next: offset + 4 };
+    default:
+      throw new Error(`Unsupported MaxMind DB data type ${type}`);
+  }
+}
+
+/**
+ * Load a CSV database. Supported layouts:
+ * - network,country (one CIDR prefix per line)
+ * - start_ip,end_ip,country (DB-IP style ranges)
+ * - GeoLite2 Country blocks (network,geoname_id,...) with the Locations CSV next to it
+ */
+function loadCsvDatabase(databasePath: string): GeoIpDatabase {
+  const lines = fs.readFileSync(databasePath, 'utf8').split(/\r?\n/).filter(line => line.trim());
+  const header = lines[0]?.toLowerCase() || '';
+  const rows = lines.map(line => line.split(',').map(field => field.trim().replace(/^"|"$/g, '')));
+  
+  // GeoLite2 blocks reference countries by geoname id
+  let geonames: Map<string, string> | null = null;
+  if (header.includes('geoname_id')) {
+    geonames = loadGeonameCountries(databasePath);
+  }
+  
+  const ranges: CountryRange[] = [];
+  for (const row of rows) {
+    try {
+      if (geonames) {
+        const country = geonames.get(row[1]) || geonames.get(row[2]);
+        if (country && row[0].includes('/')) {
+          ranges.push({ ...cidrRange(row[0]), country });
+        }
+      } else if (row[0].includes('/') && row[1]) {
+        ranges.push({ ...cidrRange(row[0]), country: row[1] });
+      } else if (net.isIP(row[0]) && net.isIP(row[1]) && row[2]) {
+        ranges.push({
+          family: net.isIP(row[0]) as 4 | 6,
+          start: ipToInteger(row[0]),
+          end: ipToInteger(row[1]),
+          country: row[2]
+        });
+      }
+    } catch (error) {
+      // Header and malformed lines are skipped
+    }
+  }
+  
+  ranges.sort((a, b) => a.family - b.family || (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+  
+  return {
+    lookup(ip: string): string | undefined {
+      const family = net.isIP(ip) as 4 | 6;
+      const value = ipToInteger(ip);
+      
+      // Binary search for the last range starting at or before the address
+      let low = 0;
+      let high = ranges.length - 1;
+      let found: CountryRange | undefined;
+      while (low <= high) {
+        const middle = (low + high) >> 1;
+        const range = ranges[middle];
+        if (range.family < family || (range.family === family && range.start <= value)) {
+          if (range.family === family) found = range;
+          low = middle + 1;
+        } else {
+          high = middle - 1;
+        }
+      }
+      
+      return found && value <= found.end ? found.country : undefined;
+    }
+  };
+}
+
+/**
+ * Read the geoname id → country code map of a GeoLite2 Locations CSV next to a blocks file
+ */
+function loadGeonameCountries(blocksPath: string): Map<string, string> {
+  const directory = path.dirname(blocksPath);
+  const locationsFile = fs.readdirSync(directory).find(name => /Locations-en\.csv$/i.test(name));
+  if (!locationsFile) {
+    throw new Error(`GeoLite2 Locations CSV not found next to ${blocksPath}`);
+  }
+  
+  const lines = fs.readFileSync(path.join(directory, locationsFile), 'utf8').split(/\r?\n/);
+  const header = lines[0].split(',');
+  const idColumn = header.indexOf('geoname_id');
+  const countryColumn = header.indexOf('country_iso_code');
+  
+  const countries = new Map<string, string>();
+  for (const line of lines.slice(1)) {
+    const fields = line.split(',').map(field => field.replace(/^"|"$/g, ''));
+    if (fields[countryColumn]) {
+      countries.set(fields[idColumn], fields[countryColumn]);
+    }
+  }
+  return countries;
+}
@@ -9,12 +9,31 @@ const LOG_LEVELS = {
   error: 3,
 };
 
+// Set in JSON mode so that log lines do not mix with the output document
+let silent = false;
+
+/**
+ * Suppress or restore all log output
+ * @param value Whether to suppress log lines
+ */
+export function setSilent(value: boolean): void {
+  silent = value;
+}
+
 /**
  * Get the configured log level
  */
 function getLogLevel(): number {
-  const config = getConfig();
-  return LOG_LEVELS[config.logLevel] || LOG_LEVELS.info;
+  if (silent) {
+    return LOG_LEVELS.error + 1;
+  }
+  try {
+    const config = getConfig();
+    return LOG_LEVELS[config.logLevel] || LOG_LEVELS.info;
+  } catch {
+    // Invalid environment override: the command reports it, logging must not throw first
+    return LOG_LEVELS.info;
+  }
 }
 
 /**
@@ -90,4 +109,5 @@ export default {
   warn,
   error,
   success,
+  setSilent,
 };
\ No newline at end of file
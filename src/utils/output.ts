@@ -0,0 +1,134 @@
+import ora, { Ora } from 'ora';
+import { Circuit, WireGuardConfig } from '../types/index.js';
+import logger from './logger.js';
+
+/**
+ * Process exit codes, documented in the README for scripts
+ */
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  FAILURE: 1,            // The operation failed
+  USAGE: 2,              // Invalid arguments, or an interactive command run with --json
+  WIREGUARD_MISSING: 3,  // wg / wg-quick not found
+  NO_VALIDATORS: 4,      // No active validator to talk to
+  NO_ROUTE: 5,           // The command needs an active route
+  LEAK_DETECTED: 6,      // leaktest found at least one leak
+} as const;
+
+let jsonMode = false;
+let commandName = '';
+
+/**
+ * Switch the CLI to machine-readable output for the running command
+ * @param enabled Whether --json was given
+ * @param command Full command name, e.g. "validator list"
+ */
+export function setJsonMode(enabled: boolean, command: string): void {
+  jsonMode = enabled;
+  commandName = command;
+  
+  // Les lignes du logger pollueraient le document JSON sur stdout
+  logger.setSilent(enabled);
+}
+
+/**
+ * Whether the running command prints JSON
+ */
+export function isJsonMode(): boolean {
+  return jsonMode;
+}
+
+/**
+ * Start a spinner, silent in JSON mode
+ * @param text Spinner text
+ * @returns The started spinner
+ */
+export function createSpinner(text: string): Ora {
+  return ora({ text, isSilent: jsonMode }).start();
+}
+
+/**
+ * Print human-readable lines, skipped in JSON mode
+ */
+export function print(...args: any[]): void {
+  if (!jsonMode) {
+    console.log(...args);
+  }
+}
+
+/**
+ * Print the result document of a successful command, only in JSON mode
+ * @param data Command-specific fields
+ */
+export function printJson(data: Record<string, any>): void {
+  if (jsonMode) {
+    process.stdout.write(JSON.stringify({ ok: true, command: commandName, ...data }, null, 2) + '\n');
+  }
+}
+
+/**
+ * Report a failure and exit
+ * @param code Exit code from EXIT_CODES
+ * @param message Error message
+ * @param spinner Spinner to fail, the message goes to stderr without one
+ * @param details Extra human-readable lines printed after the message
+ */
+export function fail(code: number, message: string, spinner?: Ora, details: string[] = []): never {
+  if (jsonMode) {
+    process.stdout.write(JSON.stringify({ ok: false, command: commandName, error: { code, message } }, null, 2) + '\n');
+  } else {
+    if (spinner) {
+      spinner.fail(message);
+    } else {
+      console.error(message);
+    }
+    details.forEach(line => console.log(line));
+  }
+  process.exit(code);
+}
+
+/**
+ * Report an unexpected error and exit with EXIT_CODES.FAILURE
+ * @param error Caught error
+ * @param spinner Spinner to fail, if any
+ */
+export function failOnError(error: unknown, spinner?: Ora): never {
+  const message = (error as Error).message;
+  return fail(EXIT_CODES.FAILURE, jsonMode ? message : `Error: ${message}`, spinner);
+}
+
+/**
+ * Strip the secrets from a WireGuard configuration before printing it
+ * @param config WireGuard configuration
+ * @returns The configuration without keys or raw config text
+ */
+export function redactConfig(config: WireGuardConfig): Omit<WireGuardConfig, 'privateKey' | 'presharedKey' | 'raw'> {
+  const { privateKey, presharedKey, raw, ...rest } = config;
+  return rest;
+}
+
+/**
+ * Build the JSON view of a circuit, hops in order and without secrets
+ * @param circuit Circuit to serialize
+ * @returns JSON-friendly circuit, or null
+ */
+export function serializeCircuit(circuit: Circuit | null): Record<string, any> | null {
+  if (!circuit) return null;
+  return {
+    id: circuit.id,
+    active: circuit.active,
+    createdAt: circuit.createdAt.toISOString(),
+    expiresAt: circuit.expiresAt.toISOString(),
+    nodes: [...circuit.nodes].sort((a, b) => a.index - b.index).map(node => ({
+      id: node.id,
+      index: node.index,
+      interfaceName: node.interfaceName,
+      country: node.config.country,
+      verifiedCountry: node.config.verifiedCountry,
+      endpoint: node.config.endpoint,
+      validator: node.validator,
+      expiresAt: new Date(node.config.expiresAt).toISOString(),
+      config: redactConfig(node.config),
+    })),
+  };
+}
@@ -0,0 +1,123 @@
+import Conf from 'conf';
+import { ProfileStore, RouteProfile } from '../types/index.js';
+import { CONFIG_SCHEMA, validateValue } from './configSchema.js';
+
+// Les profils sont rangés à côté de config.json, dans profiles.json
+const profileStore = new Conf<ProfileStore>({
+  projectName: 'tpn-router',
+  configName: 'profiles',
+  defaults: {
+    profiles: {},
+    defaultProfile: null,
+  },
+});
+
+/**
+ * Check a profile before saving it
+ * @param profile Profile to check
+ * @returns Error messages, empty if the profile is valid
+ */
+export function validateProfile(profile: RouteProfile): string[] {
+  const errors: string[] = [];
+  
+  if (!profile.name || !/^[A-Za-z0-9][A-Za-z0-9_.-]*$/.test(profile.name)) {
+    errors.push('name must start with a letter or digit and use only letters, digits, ".", "_" and "-"');
+  }
+  errors.push(...validateValue('mode', { type: 'enum', values: ['simple', 'circuit'] }, profile.mode));
+  
+  if (profile.length !== undefined) {
+    errors.push(...validateValue('length', CONFIG_SCHEMA.defaultCircuitLength, profile.length));
+  }
+  if (profile.countries !== undefined) {
+    errors.push(...validateValue('countries', CONFIG_SCHEMA.preferredCountries, profile.countries));
+  }
+  if (profile.leaseDuration !== undefined) {
+    errors.push(...validateValue('leaseDuration', CONFIG_SCHEMA.defaultLeaseDuration, profile.leaseDuration));
+  }
+  if (profile.splitTunnel !== undefined) {
+    errors.push(...validateValue('splitTunnel', CONFIG_SCHEMA.splitTunnel, profile.splitTunnel));
+  }
+  
+  for (const address of profile.validators || []) {
+    if (!/^(\[[^\]]+\]|[^:]+):\d{1,5}$/.test(address)) {
+      errors.push(`validators must be written ip:port, got '${address}'`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Get every saved profile
+ * @returns Profiles sorted by name
+ */
+export function listProfiles(): RouteProfile[] {
+  return Object.values(profileStore.get('profiles'))
+    .sort((a, b) => (a.name || '').localeCompare(b.name || ''));
+}
+
+/**
+ * Get a saved profile
+ * @param name Profile name
+ * @returns The profile, or undefined if there is none with that name
+ */
+export function getProfile(name: string): RouteProfile | undefined {
+  return profileStore.get('profiles')[name];
+}
+
+/**
+ * Create or replace a profile
+ * @param profile Profile to save, identified by its name
+ * @returns The saved profile
+ * @throws Error listing every invalid field, nothing is saved in that case
+ */
+export function saveProfile(profile: RouteProfile): RouteProfile {
+  const errors = validateProfile(profile);
+  if (errors.length > 0) {
+    throw new Error(`Invalid profile: ${errors.join('; ')}`);
+  }
+  
+  const profiles = profileStore.get('profiles');
+  profiles[profile.name!] = profile;
+  profileStore.set('profiles', profiles);
+  return profile;
+}
+
+/**
+ * Delete a profile, and stop using it as the default
+ * @param name Profile name
+ * @returns Whether the profile existed
+ */
+export function deleteProfile(name: string): boolean {
+  const profiles = profileStore.get('profiles');
+  if (!profiles[name]) {
+    return false;
+  }
+  
+  delete profiles[name];
+  profileStore.set('profiles', profiles);
+  if (profileStore.get('defaultProfile') === name) {
+    profileStore.set('defaultProfile', null);
+  }
+  return true;
+}
+
+/**
+ * Get the profile `start` uses when no --profile is given
+ * @returns The default profile, or undefined if none is set
+ */
+export function getDefaultProfile(): RouteProfile | undefined {
+  const name = profileStore.get('defaultProfile');
+  return name ? getProfile(name) : undefined;
+}
+
+/**
+ * Choose the default profile
+ * @param name Profile name, null to go back to the configured defaults
+ * @throws Error if there is no profile with that name
+ */
+export function setDefaultProfile(name: string | null): void {
+  if (name !== null && !getProfile(name)) {
+    throw new Error(`No profile named '${name}'`);
+  }
+  profileStore.set('defaultProfile', name);
+}
@@ -0,0 +1,107 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { Circuit, SessionState } from '../types/index.js';
+
+// Session state lives next to the generated WireGuard configs
+const STATE_DIR = path.join(os.homedir(), '.tpn-router');
+const STATE_FILE = path.join(STATE_DIR, 'state.json');
+const SOCKET_FILE = path.join(STATE_DIR, 'control.sock');
+const COUNTRY_INDEX_FILE = path.join(STATE_DIR, 'countries.json');
+
+// Empty session state
+const EMPTY_STATE: SessionState = {
+  circuit: null,
+  activeConfig: null,
+  interfaces: [],
+};
+
+/**
+ * Revive the Date fields of a circuit read back from JSON
+ */
+export function reviveCircuit(circuit: Circuit | null): Circuit | null {
+  if (!circuit) return null;
+  return {
+    ...circuit,
+    createdAt: new Date(circuit.createdAt),
+    expiresAt: new Date(circuit.expiresAt),
+  };
+}
+
+/**
+ * Get the path of the session state file
+ */
+export function getStatePath(): string {
+  return STATE_FILE;
+}
+
+/**
+ * Get the path of the daemon control socket
+ */
+export function getSocketPath(): string {
+  return SOCKET_FILE;
+}
+
+/**
+ * Get the path of the persisted country index
+ */
+export function getCountryIndexPath(): string {
+  return COUNTRY_INDEX_FILE;
+}
+
+/**
+ * Get the persisted session state
+ */
+export function getState(): SessionState {
+  try {
+    if (!fs.existsSync(STATE_FILE)) {
+      return { ...EMPTY_STATE, interfaces: [] };
+    }
+    const stored = JSON.parse(fs.readFileSync(STATE_FILE, 'utf-8')) as SessionState;
+    return {
+      ...EMPTY_STATE,
+      ...stored,
+      circuit: reviveCircuit(stored.circuit),
+      interfaces: stored.interfaces || [],
+    };
+  } catch (error) {
+    // A corrupt state file is treated as no session at all
+    return { ...EMPTY_STATE, interfaces: [] };
+  }
+}
+
+/**
+ * Update the persisted session state
+ */
+export function updateState(partialState: Partial<SessionState>): SessionState {
+  const updatedState: SessionState = {
+    ...getState(),
+    ...partialState,
+    updatedAt: new Date().toISOString(),
+  };
+
+  if (!fs.existsSync(STATE_DIR)) {
+    fs.mkdirSync(STATE_DIR, { recursive: true, mode: 0o700 });
+  }
+
+  // Write to a temporary file first so a crash never leaves half a state file.
+  // The state holds private keys, so keep it readable by the owner only.
+  const tmpFile = `${STATE_FILE}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpFile, JSON.stringify(updatedState, null, 2), { mode: 0o600 });
+  fs.renameSync(tmpFile, STATE_FILE);
+
+  return updatedState;
+}
+
+/**
+ * Clear the persisted session state, the guard node is kept
+ */
+export function clearState(): void {
+  const { guard } = getState();
+  if (fs.existsSync(STATE_FILE)) {
+    fs.unlinkSync(STATE_FILE);
+  }
+  if (guard) {
+    updateState({ guard });
+  }
+}
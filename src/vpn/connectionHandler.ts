@@ -1,24 +1,95 @@
-import { WireGuardConfig } from '../types/index.js';
+import { EventEmitter } from 'events';
+import { Circuit, CircuitNode, DryRunPlan, KillSwitchEndpoint, KillSwitchRules, ManagedInterface, SaveConfigOptions, SplitTunnelRules, WireGuardConfig } from '../types/index.js';
 import wireguardManager from './wireguardManager.js';
+import killSwitch from './killSwitch.js';
+import splitTunnel from './splitTunnel.js';
 import logger from '../utils/logger.js';
 import { getConfig } from '../utils/config.js';
 import tpnClient from '../api/tpnClient.js';
+import { getState, updateState } from '../utils/state.js';
+import { lookupCountry } from '../utils/geoip.js';
+import { parseCountryChain } from '../utils/countries.js';
+import ipResolver from '../api/ipResolver.js';
+
+// Firewall mark shared by every hop of a circuit. wg-quick uses it as the routing table of
+// the exit hop, and marked packets (the encrypted UDP of every hop) bypass that table.
+const CIRCUIT_FWMARK = 51820;
+// Default WireGuard MTU, each nested layer costs another 80 bytes of headers
+const BASE_MTU = 1420;
+const MTU_OVERHEAD_PER_HOP = 80;
+// Delay before retrying a failed lease refresh
+const REFRESH_RETRY_DELAY = 15000;
+// Longest delay setTimeout takes, a longer one fires right away
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
 
 /**
  * Class to handle VPN connections
  */
-export class ConnectionHandler {
+export class ConnectionHandler extends EventEmitter {
   private activeConfig: WireGuardConfig | null = null;
   private configPath: string | null = null;
+  private managedInterfaces: ManagedInterface[] = [];
   private connectionTimer: NodeJS.Timeout | null = null;
+  // Rules given for this route, null falls back to the configured ones
+  private splitTunnelOverride: SplitTunnelRules | null = null;
+  // Lease duration of renewals in minutes, null falls back to the configured one
+  private leaseDurationOverride: number | null = null;
+  // Country or fallback chain asked for the connection, renewals ask for it again
+  private requestedCountry: string | null = null;
+  private allowedIPs: string[] | undefined;
+  
+  /**
+   * Set the split tunnel rules of the next connections
+   * @param rules Rules to use, or null to use the configured ones
+   */
+  setSplitTunnel(rules: SplitTunnelRules | null): void {
+    this.splitTunnelOverride = rules;
+  }
+  
+  /**
+   * Set the lease duration used when the connection renews its lease
+   * @param minutes Lease duration in minutes, or null to use the configured one
+   */
+  setLeaseDuration(minutes: number | null): void {
+    this.leaseDurationOverride = minutes;
+  }
+  
+  /**
+   * Get the split tunnel rules in effect
+   * @returns Rules given for this route, or the configured ones
+   */
+  getSplitTunnelRules(): SplitTunnelRules {
+    return this.resolveSplitTunnel(this.splitTunnelOverride);
+  }
+  
+  /**
+   * Fill in split tunnel rules left to the configuration
+   * @param rules Rules given for a route, or null
+   * @returns The rules given, or the configured ones
+   */
+  private resolveSplitTunnel(rules: SplitTunnelRules | null): SplitTunnelRules {
+    return rules || getConfig().splitTunnel || { include: [], exclude: [] };
+  }
+  
+  /**
+   * Get the prefixes routed through the tunnel
+   * @returns AllowedIPs of the exit interface, or undefined for a full tunnel
+   */
+  getRoutedPrefixes(): string[] | undefined {
+    return this.allowedIPs;
+  }
   
   /**
    * Connect to a VPN using the given WireGuard configuration
    * @param config WireGuard configuration to use
+   * @param requested Country or fallback chain the configuration was asked for, defaults to its country
    * @returns Promise resolving to boolean indicating success
    */
-  async connect(config: WireGuardConfig): Promise<boolean> {
+  async connect(config: WireGuardConfig, requested?: string): Promise<boolean> {
     try {
+      // With the kill switch on, the IP check below is blocked, keep the one recorded earlier
+      const previousOriginalIp = getState().originalIp;
+      
       // Disconnect from any existing connection first
       await this.disconnect();
       
@@ -43,60 +114,475 @@ export class ConnectionHandler {
       } catch (error) {
         logger.warn(`Could not determine original IP: ${(error as Error).message}`);
       }
+      if (originalIp === 'unknown' && previousOriginalIp) {
+        originalIp = previousOriginalIp;
+      }
+      
+      // Refuse an endpoint outside the requested country before bringing anything up
+      if (!(await this.verifyCountry(config, 'endpoint'))) {
+        return false;
+      }
+      
+      // Save the configuration to disk, split tunnels route only part of the traffic
+      const allowedIPs = await splitTunnel.computeAllowedIPs(this.getSplitTunnelRules(), [config.endpoint]);
+      this.configPath = await wireguardManager.saveConfig(config, { allowedIPs });
+      const managed: ManagedInterface = {
+        name: wireguardManager.getInterfaceName(config),
+        configPath: this.configPath,
+        endpoint: config.endpoint
+      };
       
-      // Save the configuration to disk
-      this.configPath = await wireguardManager.saveConfig(config);
+      // Let the new endpoint through the kill switch before the tunnel comes up
+      await this.applyKillSwitch([managed]);
       
       // Activate the configuration
       const success = wireguardManager.activateConfig(this.configPath);
       
       if (success) {
         this.activeConfig = config;
+        this.requestedCountry = requested || config.country || null;
+        this.managedInterfaces = [managed];
+        this.allowedIPs = allowedIPs;
+        
+        // Persist the connection so later invocations can find it
+        this.persistState(originalIp);
         
         // Attendre que la connexion s'établisse
         await new Promise(resolve => setTimeout(resolve, 2000));
         
         // Vérifier que la connexion fonctionne réellement en comparant l'IP
-        try {
-          const newIp = await wireguardManager.getCurrentPublicIp();
-          
-          if (newIp === originalIp) {
-            logger.warn(`VPN connection might not be working: IP unchanged (${newIp})`);
-            // On continue quand même car parfois l'API peut être incohérente
-          } else {
-            logger.success(`Connected to VPN. New public IP: ${newIp}`);
-          }
-        } catch (error) {
-          logger.warn(`Could not verify VPN connection: ${(error as Error).message}`);
+        const exitIp = await this.verifyPublicIp(originalIp);
+        
+        // Check where the traffic really leaves, and record it
+        if (!(await this.verifyCountry(config, 'exit', exitIp))) {
+          await this.disconnect();
+          return false;
         }
+        this.persistState(originalIp);
         
         // Set up automatic refresh based on expiration
-        const expiryTime = config.expiresAt - Date.now();
-        if (expiryTime > 0) {
-          const refreshTime = Math.max(0, expiryTime - 60000); // Refresh 1 minute before expiry
-          logger.debug(`Setting up connection refresh in ${Math.floor(refreshTime/60000)} minutes`);
-          
-          this.connectionTimer = setTimeout(async () => {
-            logger.info('Connection is about to expire, refreshing...');
-            await this.refreshConnection();
-          }, refreshTime);
-        } else {
-          logger.warn('Connection expiry time is in the past, not setting refresh timer');
-        }
+        this.setupRefreshTimer(config);
         
         return true;
       } else {
         logger.error('Failed to activate WireGuard configuration');
         // En cas d'échec, nettoyer
-        wireguardManager.cleanupAllInterfaces();
+        wireguardManager.cleanupManagedInterfaces();
         return false;
       }
     } catch (error) {
       logger.error(`Connection failed: ${(error as Error).message}`);
       // En cas d'erreur, nettoyer
-      wireguardManager.cleanupAllInterfaces();
+      wireguardManager.cleanupManagedInterfaces();
+      return false;
+    }
+  }
+  
+  /**
+   * Connect through every node of a circuit, each hop on its own WireGuard interface.
+   * Hop N+1's endpoint is routed through hop N, and only the exit hop carries the default route.
+   * @param circuit Circuit to bring up
+   * @returns Promise resolving to boolean indicating success
+   */
+  async connectCircuit(circuit: Circuit): Promise<boolean> {
+    const previousOriginalIp = getState().originalIp;
+    
+    // Disconnect from any existing connection first
+    await this.disconnect();
+    
+    if (!wireguardManager.isWireGuardInstalled()) {
+      logger.error('WireGuard is not installed on your system.');
+      return false;
+    }
+    
+    // Obtenir l'IP d'origine pour comparaison
+    let originalIp = 'unknown';
+    try {
+      originalIp = await wireguardManager.getCurrentPublicIp();
+      logger.info(`Original public IP: ${originalIp}`);
+    } catch (error) {
+      logger.warn(`Could not determine original IP: ${(error as Error).message}`);
+    }
+    if (originalIp === 'unknown' && previousOriginalIp) {
+      originalIp = previousOriginalIp;
+    }
+    
+    const nodes = [...circuit.nodes].sort((a, b) => a.index - b.index);
+    const brought: ManagedInterface[] = [];
+    
+    // Refuse hops outside their requested country before bringing anything up
+    for (const node of nodes) {
+      if (!(await this.verifyCountry(node.config, 'endpoint'))) {
+        return false;
+      }
+    }
+    
+    // Only the entry endpoint is reached outside the tunnel, the other hops go through the layers
+    await this.applyKillSwitch(nodes.map(node => ({
+      name: wireguardManager.getInterfaceName(node.config),
+      configPath: '',
+      endpoint: node.config.endpoint
+    })));
+    
+    let exitAllowedIPs: string[] | undefined;
+    try {
+      // The exit hop applies the split tunnel, no hop endpoint may be routed into it
+      exitAllowedIPs = await splitTunnel.computeAllowedIPs(
+        this.getSplitTunnelRules(),
+        nodes.map(node => node.config.endpoint)
+      );
+      
+      for (let i = 0; i < nodes.length; i++) {
+        const node = nodes[i];
+        const interfaceName = wireguardManager.getInterfaceName(node.config);
+        const configPath = await wireguardManager.saveConfig(node.config, await this.getHopOptions(nodes, i, exitAllowedIPs));
+        
+        logger.info(`Bringing up hop ${i + 1}/${nodes.length} (${node.config.country || 'Unknown'}) on ${interfaceName}...`);
+        if (!wireguardManager.activateConfig(configPath, false)) {
+          throw new Error(`Failed to activate hop ${i + 1}`);
+        }
+        
+        node.interfaceName = interfaceName;
+        brought.push({ name: interfaceName, configPath, endpoint: node.config.endpoint, nodeId: node.id });
+        
+        // The next hop can only handshake once this one is up
+        if (!(await wireguardManager.waitForHandshake(interfaceName))) {
+          throw new Error(`No handshake on hop ${i + 1} (${interfaceName})`);
+        }
+        logger.debug(`Hop ${i + 1} handshake completed`);
+      }
+    } catch (error) {
+      logger.error(`Circuit connection failed: ${(error as Error).message}`);
+      // Tear down what was brought up, innermost layer first
+      for (const managed of [...brought].reverse()) {
+        wireguardManager.deactivateConfig(managed.configPath);
+      }
+      return false;
+    }
+    
+    const exit = nodes[nodes.length - 1];
+    this.activeConfig = exit.config;
+    this.configPath = brought[brought.length - 1].configPath;
+    this.managedInterfaces = brought;
+    this.allowedIPs = exitAllowedIPs;
+    this.persistState(originalIp);
+    
+    const exitIp = await this.verifyPublicIp(originalIp);
+    if (!(await this.verifyCountry(exit.config, 'exit', exitIp))) {
+      await this.disconnect();
+      return false;
+    }
+    this.persistState(originalIp);
+    return true;
+  }
+  
+  /**
+   * Get the WireGuard settings of one circuit hop
+   * @param nodes Circuit nodes, entry first
+   * @param i Index of the hop
+   * @param exitAllowedIPs AllowedIPs of the exit hop, undefined for the full tunnel
+   * @returns Options for saveConfig
+   */
+  private async getHopOptions(nodes: CircuitNode[], i: number, exitAllowedIPs: string[] | undefined): Promise<SaveConfigOptions> {
+    const next = nodes[i + 1];
+    
+    // Intermediate hops only carry the next hop's endpoint, the exit hop carries everything
+    const allowedIPs = next
+      ? [this.hostRoute(await wireguardManager.resolveEndpointHost(next.config.endpoint))]
+      : exitAllowedIPs;
+    
+    return {
+      allowedIPs,
+      fwMark: CIRCUIT_FWMARK,
+      mtu: BASE_MTU - i * MTU_OVERHEAD_PER_HOP,
+      includeDns: !next,
+      omitListenPort: true,
+      persistentKeepalive: 25
+    };
+  }
+  
+  /**
+   * Describe what connect() would do with a configuration, without touching the system
+   * @param config WireGuard configuration to use
+   * @param rules Split tunnel rules of the planned route, null for the configured ones
+   * @returns Promise resolving to the config file, commands and routes
+   */
+  async planConnect(config: WireGuardConfig, rules: SplitTunnelRules | null): Promise<DryRunPlan> {
+    const allowedIPs = await splitTunnel.computeAllowedIPs(this.resolveSplitTunnel(rules), [config.endpoint]);
+    const described = wireguardManager.describeConfig(config, { allowedIPs });
+    const managed: ManagedInterface = { name: described.interfaceName, configPath: described.configPath, endpoint: config.endpoint };
+    
+    return {
+      configs: [described],
+      commands: [...(await this.getKillSwitchCommands([managed])), `wg-quick up ${described.configPath}`],
+      routes: wireguardManager.getRouteChanges(described.interfaceName, described.allowedIPs)
+    };
+  }
+  
+  /**
+   * Describe what connectCircuit() would do, without touching the system
+   * @param circuit Circuit to bring up
+   * @param rules Split tunnel rules of the planned route, null for the configured ones
+   * @returns Promise resolving to the config files, commands and routes, entry hop first
+   */
+  async planCircuit(circuit: Circuit, rules: SplitTunnelRules | null): Promise<DryRunPlan> {
+    const nodes = [...circuit.nodes].sort((a, b) => a.index - b.index);
+    const exitAllowedIPs = await splitTunnel.computeAllowedIPs(
+      this.resolveSplitTunnel(rules),
+      nodes.map(node => node.config.endpoint)
+    );
+    const plan: DryRunPlan = {
+      configs: [],
+      commands: await this.getKillSwitchCommands(nodes.map(node => ({
+        name: wireguardManager.getInterfaceName(node.config),
+        configPath: '',
+        endpoint: node.config.endpoint
+      }))),
+      routes: []
+    };
+    
+    for (let i = 0; i < nodes.length; i++) {
+      const options = await this.getHopOptions(nodes, i, exitAllowedIPs);
+      const described = wireguardManager.describeConfig(nodes[i].config, options);
+      plan.configs.push(described);
+      plan.commands.push(`wg-quick up ${described.configPath}`);
+      plan.routes.push(...wireguardManager.getRouteChanges(described.interfaceName, described.allowedIPs, options.fwMark));
+    }
+    return plan;
+  }
+  
+  /**
+   * Describe what disconnect() would do, without touching the system
+   * @returns Commands tearing down the current route, innermost layer first
+   */
+  planDisconnect(): DryRunPlan {
+    // Without a restored route, use the one recorded by the last invocation
+    const interfaces = this.managedInterfaces.length > 0 ? this.managedInterfaces : getState().interfaces;
+    const commands = interfaces.length > 0
+      ? [...interfaces].reverse().map(managed => `wg-quick down ${managed.configPath}`)
+      : wireguardManager.getCleanupCommands();
+    return { configs: [], commands, routes: [] };
+  }
+  
+  /**
+   * Get the kill switch commands for the given interfaces, if the kill switch is enabled
+   * @param interfaces Interfaces of the route, entry first
+   * @returns Promise resolving to the firewall commands
+   */
+  private async getKillSwitchCommands(interfaces: ManagedInterface[]): Promise<string[]> {
+    if (!getConfig().killSwitch) {
+      return [];
+    }
+    return killSwitch.getEnableCommands(await this.getKillSwitchRules(interfaces));
+  }
+  
+  /**
+   * Install or update the kill switch rules for the given interfaces, if the kill switch is enabled
+   * @param interfaces Interfaces of the route, entry first (defaults to the active ones)
+   * @returns Promise resolving to boolean indicating success
+   */
+  async applyKillSwitch(interfaces: ManagedInterface[] = this.managedInterfaces): Promise<boolean> {
+    if (!getConfig().killSwitch) {
+      return true;
+    }
+    
+    const success = killSwitch.enable(await this.getKillSwitchRules(interfaces));
+    if (success) {
+      updateState({ killSwitch: true });
+    }
+    return success;
+  }
+  
+  /**
+   * Build the kill switch rules for the given interfaces
+   * @param interfaces Interfaces of the route, entry first
+   * @returns Promise resolving to the traffic allowed outside the tunnel
+   */
+  private async getKillSwitchRules(interfaces: ManagedInterface[]): Promise<KillSwitchRules> {
+    const { lanSubnets, validators } = getConfig();
+    
+    // Validators must stay reachable to fetch the next lease
+    const endpoints: KillSwitchEndpoint[] = validators.map(v => ({
+      ip: v.ip,
+      port: v.port,
+      protocol: 'tcp' as const
+    }));
+    
+    const entry = interfaces[0];
+    if (entry) {
+      try {
+        endpoints.push({
+          ip: await wireguardManager.resolveEndpointHost(entry.endpoint),
+          port: parseInt(entry.endpoint.split(':').pop() || '51820', 10),
+          protocol: 'udp'
+        });
+      } catch (error) {
+        logger.warn(`Could not resolve endpoint ${entry.endpoint} for the kill switch: ${(error as Error).message}`);
+      }
+    }
+    
+    return {
+      interfaces: interfaces.map(managed => managed.name),
+      endpoints,
+      lanSubnets: lanSubnets || []
+    };
+  }
+  
+  /**
+   * Build a single-host route for an IP address
+   */
+  private hostRoute(ip: string): string {
+    return ip.includes(':') ? `${ip}/128` : `${ip}/32`;
+  }
+  
+  /**
+   * Persist the current connection so later invocations can find it
+   * @param originalIp Public IP before the tunnel came up
+   */
+  private persistState(originalIp: string): void {
+    updateState({
+      activeConfig: this.activeConfig,
+      interfaces: this.managedInterfaces,
+      originalIp: originalIp !== 'unknown' ? originalIp : undefined,
+      splitTunnel: this.splitTunnelOverride,
+      allowedIPs: this.allowedIPs,
+      requestedCountry: this.requestedCountry
+    });
+  }
+  
+  /**
+   * Check that the public IP changed once the tunnel is up
+   * @param originalIp Public IP before the tunnel came up
+   * @returns Promise resolving to the new public IP, or undefined if it could not be determined
+   */
+  private async verifyPublicIp(originalIp: string): Promise<string | undefined> {
+    try {
+      const current = await ipResolver.getPublicIps();
+      const change = ipResolver.compare(originalIp, current);
+      const newIp = originalIp.includes(':') ? current.ipv6 : current.ipv4 || current.ipv6;
+      
+      if (change === 'unchanged') {
+        logger.warn(`VPN connection might not be working: IP unchanged (${newIp})`);
+        // On continue quand même car parfois l'API peut être incohérente
+      } else if (change === 'changed') {
+        logger.success(`Connected to VPN. New public IP: ${newIp}`);
+      } else {
+        logger.warn(`Could not verify VPN connection: public IP unknown${newIp ? ` (now ${newIp})` : ''}`);
+      }
+      return newIp;
+    } catch (error) {
+      logger.warn(`Could not verify VPN connection: ${(error as Error).message}`);
+      return undefined;
+    }
+  }
+  
+  /**
+   * Check an address of a lease against the offline GeoIP database, if one is configured
+   * @param config Lease to check, its verifiedCountry is set from the result
+   * @param role Address checked: the WireGuard endpoint or the observed exit IP
+   * @param ip Address to check (defaults to the resolved endpoint, an exit IP that could not be found is undefined)
+   * @returns Promise resolving to false in strict mode if the country does not match or could not be checked
+   */
+  private async verifyCountry(config: WireGuardConfig, role: 'endpoint' | 'exit', ip?: string): Promise<boolean> {
+    const { database, strictness } = getConfig().geoip;
+    if (!database) {
+      return true;
+    }
+    
+    try {
+      const address = role === 'exit' ? ip : ip || await wireguardManager.resolveEndpointHost(config.endpoint);
+      if (!address) {
+        return this.countryUnchecked(`GeoIP: the ${role} IP is unknown`, strictness === 'strict');
+      }
+      
+      const country = lookupCountry(database, address);
+      if (!country) {
+        return this.countryUnchecked(`GeoIP: ${role} ${address} is not in the database`, strictness === 'strict');
+      }
+      
+      // The exit IP is what the outside world sees, it wins over the endpoint
+      if (role === 'exit' || !config.verifiedCountry) {
+        config.verifiedCountry = country;
+      }
+      
+      const requested = config.country?.toUpperCase();
+      if (!requested || requested === 'ANY' || requested === country) {
+        logger.debug(`GeoIP: ${role} ${address} is in ${country}`);
+        return true;
+      }
+      
+      const message = `GeoIP: ${role} ${address} is in ${country}, not ${requested}`;
+      if (strictness === 'strict') {
+        logger.error(message);
+        return false;
+      }
+      logger.warn(message);
+      return true;
+    } catch (error) {
+      return this.countryUnchecked(`GeoIP check of the ${role} failed: ${(error as Error).message}`, strictness === 'strict');
+    }
+  }
+  
+  /**
+   * Report a GeoIP check that could not complete
+   * @param message What went wrong
+   * @param strict Whether the country must be confirmed
+   * @returns false in strict mode, the lease cannot be trusted
+   */
+  private countryUnchecked(message: string, strict: boolean): boolean {
+    if (strict) {
+      logger.error(`${message}, refusing the lease (geoip.strictness is strict)`);
       return false;
     }
+    logger.warn(message);
+    return true;
+  }
+  
+  /**
+   * Set up a timer to refresh the connection before its lease expires.
+   * An imported config is not refreshed, its expiry is only reported.
+   * @param config Configuration whose expiry drives the timer
+   */
+  private setupRefreshTimer(config: WireGuardConfig): void {
+    if (this.connectionTimer) {
+      clearTimeout(this.connectionTimer);
+      this.connectionTimer = null;
+    }
+    
+    const expiryTime = config.expiresAt - Date.now();
+    if (expiryTime > MAX_TIMER_DELAY) {
+      // Too far for one timer, check again later
+      this.connectionTimer = setTimeout(() => this.setupRefreshTimer(config), MAX_TIMER_DELAY);
+    } else if (config.imported) {
+      this.connectionTimer = setTimeout(() => {
+        this.connectionTimer = null;
+        logger.warn(`The imported config of ${config.endpoint} reached its expiry and is not renewed. ` +
+          'Import a new one or connect with a fresh lease if the tunnel stops working');
+      }, Math.max(0, expiryTime));
+    } else if (expiryTime > 0) {
+      const refreshTime = Math.max(0, expiryTime - 60000); // Refresh 1 minute before expiry
+      logger.debug(`Setting up connection refresh in ${Math.floor(refreshTime/60000)} minutes`);
+      this.scheduleRefresh(refreshTime);
+    } else {
+      logger.warn('Connection expiry time is in the past, not setting refresh timer');
+    }
+  }
+  
+  /**
+   * Refresh after a delay, retrying while the current lease is still valid
+   * @param delay Delay in milliseconds
+   */
+  private scheduleRefresh(delay: number): void {
+    this.connectionTimer = setTimeout(async () => {
+      logger.info('Connection is about to expire, refreshing...');
+      const refreshed = await this.refreshConnection();
+      
+      // The old lease keeps working until it expires, so there is still time to retry
+      if (!refreshed && this.activeConfig && this.activeConfig.expiresAt > Date.now() + REFRESH_RETRY_DELAY) {
+        logger.warn(`Refresh failed, retrying in ${REFRESH_RETRY_DELAY / 1000} seconds`);
+        this.scheduleRefresh(REFRESH_RETRY_DELAY);
+      }
+    }, delay);
   }
   
   /**
@@ -107,7 +593,7 @@ export class ConnectionHandler {
     if (!this.activeConfig || !this.configPath) {
       logger.info('No active VPN connection to disconnect');
       // Nettoyage de sécurité même si nous pensons qu'il n'y a pas de connexion active
-      wireguardManager.cleanupAllInterfaces();
+      wireguardManager.cleanupManagedInterfaces();
       return true;
     }
     
@@ -125,23 +611,33 @@ export class ConnectionHandler {
         this.connectionTimer = null;
       }
       
-      // Deactivate the configuration
-      const success = wireguardManager.deactivateConfig(this.configPath);
+      // Deactivate every interface, innermost circuit layer first
+      const interfaces = this.managedInterfaces.length > 0
+        ? [...this.managedInterfaces].reverse()
+        : [{ name: wireguardManager.getInterfaceName(this.activeConfig), configPath: this.configPath, endpoint: this.activeConfig.endpoint }];
+      let success = true;
+      for (const managed of interfaces) {
+        success = wireguardManager.deactivateConfig(managed.configPath) && success;
+      }
       
       // En cas d'échec, tenter un nettoyage complet
       if (!success) {
         logger.warn('Failed to disconnect normally, attempting full cleanup');
-        wireguardManager.cleanupAllInterfaces();
+        wireguardManager.cleanupManagedInterfaces();
       }
       
       logger.success(`Disconnected from VPN server: ${this.activeConfig.endpoint}`);
       this.activeConfig = null;
+      this.requestedCountry = null;
       this.configPath = null;
+      this.managedInterfaces = [];
+      this.allowedIPs = undefined;
+      updateState({ activeConfig: null, interfaces: [], originalIp: undefined, allowedIPs: undefined, requestedCountry: null });
       return true;
     } catch (error) {
       logger.error(`Disconnect failed: ${(error as Error).message}`);
       // En cas d'erreur, tentative de nettoyage complet
-      wireguardManager.cleanupAllInterfaces();
+      wireguardManager.cleanupManagedInterfaces();
       return false;
     }
   }
@@ -155,31 +651,249 @@ export class ConnectionHandler {
       logger.warn('No active connection to refresh');
       return false;
     }
+    if (this.activeConfig.imported) {
+      logger.warn('The connection uses an imported config, it is not replaced by a fresh lease');
+      return false;
+    }
     
     try {
-      // Get a new configuration from the same country
-      const validator = tpnClient.getRandomValidator();
-      const { defaultLeaseDuration } = getConfig();
-      const country = this.activeConfig.country || 'any';
+      // Get a new configuration through the same chain as the connection
+      const leaseMinutes = this.leaseDurationOverride || getConfig().defaultLeaseDuration;
+      const requested = this.requestedCountry || this.activeConfig.country || 'any';
       
-      logger.info(`Refreshing connection using country: ${country}`);
+      logger.info(`Refreshing connection using country: ${requested}`);
       
-      const configResponse = await tpnClient.getNewConfig(
-        validator,
-        country,
-        defaultLeaseDuration
-      );
+      const configResponse = await tpnClient.getConfigFromChain(parseCountryChain(requested), leaseMinutes);
       
-      const newConfig = wireguardManager.parseTpnResponse(configResponse, configResponse.country || country);
+      const newConfig = wireguardManager.parseTpnResponse(configResponse, configResponse.country || 'any');
       
-      // Connect with the new configuration
-      return await this.connect(newConfig);
+      // Circuits and unknown interfaces fall back to a full reconnect
+      if (this.managedInterfaces.length !== 1) {
+        const success = await this.connect(newConfig, requested);
+        if (success) {
+          this.emit('connection:refreshed', newConfig);
+        }
+        return success;
+      }
+      
+      return await this.swapLease(newConfig);
     } catch (error) {
       logger.error(`Failed to refresh connection: ${(error as Error).message}`);
       return false;
     }
   }
   
+  /**
+   * Move the running interface to a new lease without tearing it down (make-before-break).
+   * The old lease is restored if the new peer does not complete a handshake.
+   * @param newConfig New lease to switch to
+   * @returns Promise resolving to boolean indicating success
+   */
+  private async swapLease(newConfig: WireGuardConfig): Promise<boolean> {
+    const oldConfig = this.activeConfig!;
+    const current = this.managedInterfaces[0];
+    const next: ManagedInterface = { ...current, endpoint: newConfig.endpoint };
+    
+    logger.info(`Switching ${current.name} to ${newConfig.endpoint} without dropping the tunnel...`);
+    
+    if (!(await this.verifyCountry(newConfig, 'endpoint'))) {
+      logger.warn('New lease is outside the requested country, keeping the current one');
+      return false;
+    }
+    
+    // Re-apply the split tunnel, domains may resolve differently and the endpoint changed
+    const allowedIPs = await splitTunnel.computeAllowedIPs(this.getSplitTunnelRules(), [newConfig.endpoint]);
+    
+    // Let the new endpoint through the kill switch before traffic moves to it
+    await this.applyKillSwitch([next]);
+    
+    if (!wireguardManager.swapPeer(current.name, oldConfig, newConfig, allowedIPs) ||
+        !(await wireguardManager.waitForHandshake(current.name, 10000, newConfig.publicKey))) {
+      logger.warn('New lease did not come up, keeping the current one');
+      wireguardManager.swapPeer(current.name, newConfig, oldConfig, this.allowedIPs);
+      await this.applyKillSwitch([current]);
+      return false;
+    }
+    
+    // Traffic now leaves through the new lease, check where
+    if (getConfig().geoip.database) {
+      const exitIp = await wireguardManager.getCurrentPublicIp().catch(() => undefined);
+      if (!(await this.verifyCountry(newConfig, 'exit', exitIp))) {
+        logger.warn('New lease exits outside the requested country, keeping the current one');
+        wireguardManager.swapPeer(current.name, newConfig, oldConfig, this.allowedIPs);
+        await this.applyKillSwitch([current]);
+        return false;
+      }
+    }
+    
+    // Keep the config file in sync so wg-quick down still matches the interface
+    await wireguardManager.saveConfig(newConfig, { interfaceName: current.name, allowedIPs });
+    
+    this.activeConfig = newConfig;
+    this.managedInterfaces = [next];
+    this.allowedIPs = allowedIPs;
+    this.persistState(getState().originalIp || 'unknown');
+    this.setupRefreshTimer(newConfig);
+    
+    logger.success(`Lease renewed in place on ${current.name}, expires at ${new Date(newConfig.expiresAt).toLocaleString()}`);
+    this.emit('connection:refreshed', newConfig);
+    return true;
+  }
+  
+  /**
+   * Move one hop of a running circuit to a new lease, leaving the other layers up.
+   * The hop keeps its interface; the previous hop's route and the exit's split tunnel
+   * follow the new endpoint. The old lease is restored if the new one does not come up.
+   * @param circuit Running circuit
+   * @param node New lease, with the index of the hop it replaces
+   * @returns Promise resolving to boolean indicating success
+   */
+  async replaceHop(circuit: Circuit, node: CircuitNode): Promise<boolean> {
+    const nodes = [...circuit.nodes].sort((a, b) => a.index - b.index);
+    const position = nodes.findIndex(hop => hop.index === node.index);
+    const current = nodes[position];
+    const interfaceName = current?.interfaceName;
+    if (!current || !interfaceName || !wireguardManager.interfaceExists(interfaceName)) {
+      logger.warn(`Hop ${node.index + 1} is not running, it cannot be replaced in place`);
+      return false;
+    }
+    
+    if (!(await this.verifyCountry(node.config, 'endpoint'))) {
+      logger.warn(`New lease for hop ${position + 1} is outside the requested country, keeping the current one`);
+      return false;
+    }
+    
+    const replacement: CircuitNode = { ...node, interfaceName };
+    const updated = nodes.map((hop, i) => i === position ? replacement : hop);
+    const previous = nodes[position - 1];
+    const exit = nodes[nodes.length - 1];
+    const rules = this.getSplitTunnelRules();
+    const managed = this.managedInterfaces.map(iface =>
+      iface.name === interfaceName ? { ...iface, endpoint: node.config.endpoint, nodeId: node.id } : iface);
+    
+    // Pendant la bascule, l'ancien et le nouveau endpoint restent hors du hop de sortie
+    const bridgeAllowedIPs = await splitTunnel.computeAllowedIPs(rules, [...nodes, replacement].map(hop => hop.config.endpoint));
+    const exitAllowedIPs = await splitTunnel.computeAllowedIPs(rules, updated.map(hop => hop.config.endpoint));
+    const oldHost = this.hostRoute(await wireguardManager.resolveEndpointHost(current.config.endpoint));
+    const newHost = this.hostRoute(await wireguardManager.resolveEndpointHost(node.config.endpoint));
+    const oldOptions = await this.getHopOptions(nodes, position, this.allowedIPs);
+    const newOptions = await this.getHopOptions(updated, position, exitAllowedIPs);
+    
+    const restore = async () => {
+      wireguardManager.swapPeer(interfaceName, node.config, current.config, oldOptions.allowedIPs);
+      if (previous?.interfaceName) {
+        wireguardManager.swapPeer(previous.interfaceName, previous.config, previous.config, [oldHost]);
+      }
+      if (exit !== current && exit.interfaceName && this.allowedIPs) {
+        wireguardManager.swapPeer(exit.interfaceName, exit.config, exit.config, this.allowedIPs);
+      }
+      await this.applyKillSwitch();
+    };
+    
+    logger.info(`Switching hop ${position + 1} on ${interfaceName} to ${node.config.endpoint}, the other hops stay up...`);
+    
+    // A new entry endpoint must get through the kill switch before traffic moves to it
+    if (position === 0) {
+      await this.applyKillSwitch(managed);
+    }
+    
+    // Route the new endpoint through the previous layer, and keep it out of the exit
+    if (previous?.interfaceName) {
+      wireguardManager.swapPeer(previous.interfaceName, previous.config, previous.config, [...new Set([oldHost, newHost])]);
+    }
+    if (exit !== current && exit.interfaceName && bridgeAllowedIPs) {
+      wireguardManager.swapPeer(exit.interfaceName, exit.config, exit.config, bridgeAllowedIPs);
+    }
+    
+    if (!wireguardManager.swapPeer(interfaceName, current.config, node.config, newOptions.allowedIPs) ||
+        !(await wireguardManager.waitForHandshake(interfaceName, 10000, node.config.publicKey))) {
+      logger.warn(`New lease for hop ${position + 1} did not come up, keeping the current one`);
+      await restore();
+      return false;
+    }
+    
+    // The old endpoint no longer needs a route
+    if (previous?.interfaceName) {
+      wireguardManager.swapPeer(previous.interfaceName, previous.config, previous.config, [newHost]);
+    }
+    if (exit !== current && exit.interfaceName && exitAllowedIPs) {
+      wireguardManager.swapPeer(exit.interfaceName, exit.config, exit.config, exitAllowedIPs);
+    }
+    
+    // Keep the config files in sync so wg-quick down still matches the interfaces
+    await wireguardManager.saveConfig(node.config, { ...newOptions, interfaceName });
+    if (previous?.interfaceName) {
+      await wireguardManager.saveConfig(previous.config, { ...(await this.getHopOptions(updated, position - 1, exitAllowedIPs)), interfaceName: previous.interfaceName });
+    }
+    if (exit !== current && exit.interfaceName) {
+      await wireguardManager.saveConfig(exit.config, { ...(await this.getHopOptions(updated, nodes.length - 1, exitAllowedIPs)), interfaceName: exit.interfaceName });
+    }
+    
+    if (exit === current) {
+      this.activeConfig = node.config;
+    }
+    this.managedInterfaces = managed;
+    this.allowedIPs = exitAllowedIPs;
+    this.persistState(getState().originalIp || 'unknown');
+    await this.applyKillSwitch();
+    
+    logger.success(`Hop ${position + 1} renewed in place on ${interfaceName}, expires at ${new Date(node.config.expiresAt).toLocaleString()}`);
+    return true;
+  }
+  
+  /**
+   * Restore the active connection from the persisted session state
+   * @param resumeTimers Also re-arm the lease refresh timer (long-running processes only)
+   * @returns Boolean indicating if a live connection was restored
+   */
+  restoreState(resumeTimers: boolean = false): boolean {
+    if (this.activeConfig) {
+      return true;
+    }
+    
+    const { activeConfig, interfaces, splitTunnel: rules, allowedIPs, requestedCountry } = getState();
+    if (!activeConfig || interfaces.length === 0) {
+      return false;
+    }
+    
+    // An interface may have been removed behind our back (reboot, manual wg-quick down...)
+    const missing = interfaces.filter(managed => !wireguardManager.interfaceExists(managed.name));
+    if (missing.length > 0) {
+      logger.warn(`Stale session state: interface ${missing.map(m => m.name).join(', ')} no longer exists, clearing it`);
+      // A circuit missing one layer is unusable, bring the remaining layers down too
+      for (const managed of [...interfaces].reverse()) {
+        if (!missing.includes(managed)) {
+          wireguardManager.deactivateConfig(managed.configPath);
+        }
+      }
+      updateState({ activeConfig: null, interfaces: [], originalIp: undefined, allowedIPs: undefined });
+      return false;
+    }
+    
+    const exit = interfaces[interfaces.length - 1];
+    this.activeConfig = activeConfig;
+    this.requestedCountry = requestedCountry || null;
+    this.configPath = exit.configPath;
+    this.managedInterfaces = interfaces;
+    this.splitTunnelOverride = rules || null;
+    this.allowedIPs = allowedIPs;
+    logger.debug(`Restored connection on ${interfaces.map(m => m.name).join(', ')} from session state`);
+    
+    // Circuits are renewed by the route manager
+    if (resumeTimers && interfaces.length === 1) {
+      this.setupRefreshTimer(activeConfig);
+    }
+    return true;
+  }
+  
+  /**
+   * Get the public IP recorded before the tunnel came up
+   * @returns Original public IP, or undefined if unknown
+   */
+  getOriginalIp(): string | undefined {
+    return getState().originalIp;
+  }
+  
   /**
    * Check if there is an active connection
    * @returns Boolean indicating if connection is active
@@ -196,9 +910,17 @@ export class ConnectionHandler {
     return this.activeConfig;
   }
   
+  /**
+   * Get the interfaces of the current connection
+   * @returns Managed interfaces, entry first
+   */
+  getManagedInterfaces(): ManagedInterface[] {
+    return this.managedInterfaces;
+  }
+  
   /**
    * Create and establish a simple direct VPN connection
-   * @param country Country code or 'any'
+   * @param country Country code, 'any', or a fallback chain such as "FR|BE|any"
    * @param leaseMinutes Lease duration in minutes
    * @returns Promise resolving to boolean indicating success
    */
@@ -207,21 +929,14 @@ export class ConnectionHandler {
       // Disconnect any existing connection
       await this.disconnect();
       
-      // Get a random validator
-      const validator = tpnClient.getRandomValidator();
-      
-      // Get a configuration for the specified country
-      const configResponse = await tpnClient.getNewConfig(
-        validator,
-        country,
-        leaseMinutes
-      );
+      // Get a configuration from the first country of the chain that has one
+      const configResponse = await tpnClient.getConfigFromChain(parseCountryChain(country), leaseMinutes);
       
       // Parse the configuration
-      const config = wireguardManager.parseTpnResponse(configResponse, configResponse.country || country);
+      const config = wireguardManager.parseTpnResponse(configResponse, configResponse.country || 'any');
       
-      // Connect using the configuration
-      return await this.connect(config);
+      // Connect using the configuration, renewals go through the same chain
+      return await this.connect(config, country);
     } catch (error) {
       logger.error(`Direct connection failed: ${(error as Error).message}`);
       return false;
@@ -0,0 +1,215 @@
+import { EventEmitter } from 'events';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { HealthCheckResult, ManagedInterface } from '../types/index.js';
+import wireguardManager from './wireguardManager.js';
+import connectionHandler from './connectionHandler.js';
+import { getConfig } from '../utils/config.js';
+import logger from '../utils/logger.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Class to periodically check that the active tunnel still carries traffic.
+ * Emits 'degraded' on every failed check and 'failed' once the failure threshold is reached.
+ */
+export class HealthMonitor extends EventEmitter {
+  private timer: NodeJS.Timeout | null = null;
+  private failures = 0;
+  // Counters seen at the previous check, per interface and peer
+  private lastCounters = new Map<string, { publicKey: string; rxBytes: number; txBytes: number }>();
+  private lastResult: HealthCheckResult | null = null;
+  
+  /**
+   * Start checking the active tunnel, if health checks are enabled
+   */
+  start(): void {
+    const { healthCheck } = getConfig();
+    if (this.timer || !healthCheck.enabled) {
+      return;
+    }
+    
+    this.failures = 0;
+    this.lastCounters.clear();
+    logger.debug(`Health monitor started, checking every ${healthCheck.interval} seconds`);
+    this.scheduleCheck(healthCheck.interval * 1000);
+  }
+  
+  /**
+   * Stop checking
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+      logger.debug('Health monitor stopped');
+    }
+  }
+  
+  /**
+   * Check if the monitor is running
+   * @returns Boolean indicating if checks are scheduled
+   */
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+  
+  /**
+   * Get the result of the latest check
+   * @returns Latest result, or null if no check ran yet
+   */
+  getLastResult(): HealthCheckResult | null {
+    return this.lastResult;
+  }
+  
+  /**
+   * Run the next check after a delay
+   * @param delay Delay in milliseconds
+   */
+  private scheduleCheck(delay: number): void {
+    this.timer = setTimeout(async () => {
+      const result = await this.check();
+      const { healthCheck } = getConfig();
+      
+      if (result.healthy) {
+        this.scheduleCheck(healthCheck.interval * 1000);
+        return;
+      }
+      
+      if (result.failures >= healthCheck.failureThreshold) {
+        logger.error(`Tunnel failed ${result.failures} health checks in a row: ${result.reason}`);
+        // The route manager replaces the route and starts a new monitor
+        this.timer = null;
+        this.failures = 0;
+        this.emit('failed', result);
+        return;
+      }
+      
+      logger.warn(`Tunnel degraded (${result.failures}/${healthCheck.failureThreshold}): ${result.reason}`);
+      this.emit('degraded', result);
+      this.scheduleCheck(healthCheck.interval * 1000);
+    }, delay);
+    // Checks alone must not keep the process alive
+    this.timer.unref();
+  }
+  
+  /**
+   * Check every interface of the active connection and the probe target
+   * @returns Promise resolving to the check result
+   */
+  async check(): Promise<HealthCheckResult> {
+    const { healthCheck } = getConfig();
+    const interfaces = connectionHandler.getManagedInterfaces();
+    
+    let result: HealthCheckResult = {
+      healthy: true,
+      interfaceName: interfaces.length > 0 ? interfaces[interfaces.length - 1].name : '',
+      failures: 0,
+      checkedAt: new Date().toISOString()
+    };
+    
+    if (interfaces.length === 0) {
+      result = { ...result, healthy: false, reason: 'no active tunnel interface' };
+    }
+    
+    // Entry first, a broken outer layer explains the failures of the inner ones
+    for (const managed of interfaces) {
+      const interfaceResult = this.checkInterface(managed, healthCheck.maxHandshakeAge);
+      result = { ...result, ...interfaceResult };
+      if (!interfaceResult.healthy) {
+        break;
+      }
+    }
+    
+    if (result.healthy && healthCheck.probeTarget) {
+      // Through the exit interface, the innermost layer of a circuit
+      result.probeOk = await this.probe(healthCheck.probeTarget, healthCheck.probeTimeout, interfaces[interfaces.length - 1].name);
+      if (!result.probeOk) {
+        result.healthy = false;
+        result.reason = `probe ${healthCheck.probeTarget} did not answer within ${healthCheck.probeTimeout} ms`;
+      }
+    }
+    
+    this.failures = result.healthy ? 0 : this.failures + 1;
+    result.failures = this.failures;
+    this.lastResult = result;
+    logger.debug(`Health check on ${result.interfaceName}: ${result.healthy ? 'healthy' : result.reason}`);
+    return result;
+  }
+  
+  /**
+   * Check the handshake age and transfer counters of one interface
+   * @param managed Interface to check
+   * @param maxHandshakeAge Seconds before a handshake is considered stale
+   * @returns Partial check result for this interface
+   */
+  private checkInterface(managed: ManagedInterface, maxHandshakeAge: number): Partial<HealthCheckResult> & { healthy: boolean } {
+    const base = { interfaceName: managed.name };
+    const peers = wireguardManager.getPeerStats(managed.name);
+    if (!peers) {
+      return { ...base, healthy: false, reason: `interface ${managed.name} is gone` };
+    }
+    
+    // During a make-before-break swap both peers may be listed, the newest handshake wins
+    const peer = [...peers].sort((a, b) => b.latestHandshake - a.latestHandshake)[0];
+    if (!peer) {
+      return { ...base, healthy: false, reason: `interface ${managed.name} has no peer` };
+    }
+    
+    const stats = { ...base, rxBytes: peer.rxBytes, txBytes: peer.txBytes };
+    if (peer.latestHandshake === 0) {
+      return { ...stats, healthy: false, reason: `no handshake on ${managed.name}` };
+    }
+    
+    const handshakeAge = Math.floor(Date.now() / 1000) - peer.latestHandshake;
+    const previous = this.lastCounters.get(managed.name);
+    this.lastCounters.set(managed.name, { publicKey: peer.publicKey, rxBytes: peer.rxBytes, txBytes: peer.txBytes });
+    
+    // An idle tunnel does not renew its handshake, only a stale one that swallows traffic is broken
+    if (handshakeAge > maxHandshakeAge && previous && previous.publicKey === peer.publicKey) {
+      const sent = peer.txBytes - previous.txBytes;
+      const received = peer.rxBytes - previous.rxBytes;
+      if (sent > 0 && received === 0) {
+        return {
+          ...stats,
+          handshakeAge,
+          healthy: false,
+          reason: `handshake on ${managed.name} is ${handshakeAge}s old and ${sent} bytes sent got no reply`
+        };
+      }
+    }
+    
+    return { ...stats, handshakeAge, healthy: true };
+  }
+  
+  /**
+   * Fetch the probe target through the tunnel, any HTTP answer counts as reachable.
+   * curl binds to the interface (SO_BINDTODEVICE), so a target the split tunnel
+   * does not route still goes through the tunnel instead of the host's default route.
+   * @param target URL to fetch
+   * @param timeout Timeout in milliseconds
+   * @param interfaceName Tunnel interface to send the request from
+   * @returns Promise resolving to boolean indicating if the target answered
+   */
+  private async probe(target: string, timeout: number, interfaceName: string): Promise<boolean> {
+    try {
+      await execFileAsync('curl', [
+        '--silent', '--output', '/dev/null',
+        '--interface', interfaceName,
+        '--max-time', String(timeout / 1000),
+        target
+      ]);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        logger.warn('curl is needed to probe healthCheck.probeTarget through the tunnel');
+      } else {
+        logger.debug(`Health probe ${target} via ${interfaceName} failed: ${(error as Error).message}`);
+      }
+      return false;
+    }
+  }
+}
+
+// Export singleton instance
+export default new HealthMonitor();
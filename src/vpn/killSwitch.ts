@@ -0,0 +1,238 @@
+import { execSync } from 'child_process';
+import net from 'net';
+import { KillSwitchRules } from '../types/index.js';
+import logger from '../utils/logger.js';
+
+// Names of the nftables table and iptables chain owned by tpn-router
+const NFT_TABLE = 'tpn_router_killswitch';
+const IPT_CHAIN = 'TPN_KILLSWITCH';
+
+type Backend = 'nftables' | 'iptables';
+
+/**
+ * Class to block all traffic that does not go through the tunnel
+ */
+export class KillSwitch {
+  /**
+   * Check if a command is available
+   */
+  private hasCommand(command: string): boolean {
+    try {
+      execSync(`which ${command}`, { stdio: 'ignore' });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+  
+  /**
+   * Get the firewall backend to use, nftables first
+   * @returns Backend name, or null if neither nft nor iptables is available
+   */
+  getBackend(): Backend | null {
+    if (this.hasCommand('nft')) return 'nftables';
+    if (this.hasCommand('iptables')) return 'iptables';
+    return null;
+  }
+  
+  /**
+   * Check if kill switch rules are currently installed
+   * @returns Boolean indicating if traffic is being filtered
+   */
+  isActive(): boolean {
+    try {
+      if (this.getBackend() === 'nftables') {
+        execSync(`nft list table inet ${NFT_TABLE}`, { stdio: 'ignore' });
+      } else {
+        execSync(`iptables -C OUTPUT -j ${IPT_CHAIN}`, { stdio: 'ignore' });
+      }
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+  
+  /**
+   * Install or replace the kill switch rules
+   * @param rules Traffic allowed outside the tunnel
+   * @returns Boolean indicating success
+   */
+  enable(rules: KillSwitchRules): boolean {
+    const backend = this.getBackend();
+    if (!backend) {
+      logger.error('Cannot enable kill switch: neither nft nor iptables is installed');
+      return false;
+    }
+    
+    try {
+      if (backend === 'nftables') {
+        execSync('nft -f -', { input: this.renderNftRuleset(rules), stdio: ['pipe', 'inherit', 'inherit'] });
+      } else {
+        this.applyIptables('iptables', rules, 4);
+        this.applyIptables('ip6tables', rules, 6);
+      }
+      
+      const endpoints = rules.endpoints.map(e => `${e.ip}:${e.port}`).join(', ') || 'none';
+      logger.info(`Kill switch active (${backend}), tunnel endpoints allowed: ${endpoints}`);
+      return true;
+    } catch (error) {
+      logger.error(`Failed to enable kill switch: ${(error as Error).message}`);
+      return false;
+    }
+  }
+  
+  /**
+   * Remove the kill switch rules and restore normal connectivity
+   * @returns Boolean indicating success
+   */
+  disable(): boolean {
+    try {
+      // Remove whatever is installed, whichever backend installed it
+      if (this.hasCommand('nft')) {
+        try {
+          execSync(`nft delete table inet ${NFT_TABLE}`, { stdio: 'ignore' });
+        } catch (error) {
+          // Table not present
+        }
+      }
+      for (const command of ['iptables', 'ip6tables']) {
+        if (!this.hasCommand(command)) continue;
+        try {
+          execSync(`${command} -D OUTPUT -j ${IPT_CHAIN}`, { stdio: 'ignore' });
+          execSync(`${command} -F ${IPT_CHAIN}`, { stdio: 'ignore' });
+          execSync(`${command} -X ${IPT_CHAIN}`, { stdio: 'ignore' });
+        } catch (error) {
+          // Chain not present
+        }
+      }
+      
+      logger.info('Kill switch disabled, normal connectivity restored');
+      return true;
+    } catch (error) {
+      logger.error(`Failed to disable kill switch: ${(error as Error).message}`);
+      return false;
+    }
+  }
+  
+  /**
+   * List the commands enable() would run, for dry runs
+   * @param rules Traffic allowed outside the tunnel
+   * @returns Firewall commands, empty if no backend is installed
+   */
+  getEnableCommands(rules: KillSwitchRules): string[] {
+    const backend = this.getBackend();
+    if (backend === 'nftables') {
+      return [`nft -f - <<'EOF'\n${this.renderNftRuleset(rules)}EOF`];
+    }
+    if (backend === 'iptables') {
+      const families = ([['iptables', 4], ['ip6tables', 6]] as const).filter(([command]) => this.hasCommand(command));
+      return families.flatMap(([command, family]) => [
+        `${command} -N ${IPT_CHAIN}`,
+        ...this.getIptablesRules(rules, family).map(args => `${command} ${args}`),
+        `${command} -I OUTPUT 1 -j ${IPT_CHAIN}`
+      ]);
+    }
+    return [];
+  }
+  
+  /**
+   * List the commands disable() would run, for dry runs
+   * @returns Firewall commands for the installed backends
+   */
+  getDisableCommands(): string[] {
+    const commands: string[] = [];
+    if (this.hasCommand('nft')) {
+      commands.push(`nft delete table inet ${NFT_TABLE}`);
+    }
+    for (const command of ['iptables', 'ip6tables'].filter(c => this.hasCommand(c))) {
+      commands.push(`${command} -D OUTPUT -j ${IPT_CHAIN}`, `${command} -F ${IPT_CHAIN}`, `${command} -X ${IPT_CHAIN}`);
+    }
+    return commands;
+  }
+  
+  /**
+   * Render the nftables ruleset, replacing any previous version atomically
+   */
+  private renderNftRuleset(rules: KillSwitchRules): string {
+    const lines = [
+      // Declaring then deleting the table makes the replacement work whether it exists or not
+      `table inet ${NFT_TABLE}`,
+      `delete table inet ${NFT_TABLE}`,
+      `table inet ${NFT_TABLE} {`,
+      '  chain output {',
+      '    type filter hook output priority 0; policy drop;',
+      '    oifname "lo" accept',
+    ];
+    
+    for (const iface of rules.interfaces) {
+      lines.push(`    oifname "${iface}" accept`);
+    }
+    for (const subnet of rules.lanSubnets) {
+      lines.push(`    ${net.isIPv6(subnet.split('/')[0]) ? 'ip6' : 'ip'} daddr ${subnet} accept`);
+    }
+    for (const endpoint of rules.endpoints) {
+      const family = net.isIPv6(endpoint.ip) ? 'ip6' : 'ip';
+      lines.push(`    ${family} daddr ${endpoint.ip} ${endpoint.protocol} dport ${endpoint.port} accept`);
+    }
+    
+    // DHCP keeps the physical link alive while everything else is blocked
+    lines.push('    udp sport 68 udp dport 67 accept');
+    lines.push('  }', '}');
+    return lines.join('\n') + '\n';
+  }
+  
+  /**
+   * Build the arguments that flush and fill the chain for one IP family
+   */
+  private getIptablesRules(rules: KillSwitchRules, family: 4 | 6): string[] {
+    const matchesFamily = (ip: string) => net.isIP(ip.split('/')[0]) === family;
+    const args = [`-F ${IPT_CHAIN}`, `-A ${IPT_CHAIN} -o lo -j ACCEPT`];
+    
+    for (const iface of rules.interfaces) {
+      args.push(`-A ${IPT_CHAIN} -o ${iface} -j ACCEPT`);
+    }
+    for (const subnet of rules.lanSubnets.filter(matchesFamily)) {
+      args.push(`-A ${IPT_CHAIN} -d ${subnet} -j ACCEPT`);
+    }
+    for (const endpoint of rules.endpoints.filter(e => matchesFamily(e.ip))) {
+      args.push(`-A ${IPT_CHAIN} -d ${endpoint.ip} -p ${endpoint.protocol} --dport ${endpoint.port} -j ACCEPT`);
+    }
+    if (family === 4) {
+      args.push(`-A ${IPT_CHAIN} -p udp --sport 68 --dport 67 -j ACCEPT`);
+    }
+    args.push(`-A ${IPT_CHAIN} -j DROP`);
+    return args;
+  }
+  
+  /**
+   * Install the rules for one IP family with iptables or ip6tables
+   */
+  private applyIptables(command: string, rules: KillSwitchRules, family: 4 | 6): void {
+    if (!this.hasCommand(command)) {
+      if (family === 6) {
+        logger.warn('ip6tables not found, IPv6 traffic is not covered by the kill switch');
+        return;
+      }
+      throw new Error(`${command} not found`);
+    }
+    
+    const run = (args: string) => execSync(`${command} ${args}`, { stdio: 'ignore' });
+    
+    try {
+      run(`-N ${IPT_CHAIN}`);
+    } catch (error) {
+      // Chain already exists, it gets flushed below
+    }
+    this.getIptablesRules(rules, family).forEach(run);
+    
+    // Hook the chain into OUTPUT once
+    try {
+      run(`-C OUTPUT -j ${IPT_CHAIN}`);
+    } catch (error) {
+      run(`-I OUTPUT 1 -j ${IPT_CHAIN}`);
+    }
+  }
+}
+
+// Export singleton instance
+export default new KillSwitch();
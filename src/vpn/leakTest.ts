@@ -0,0 +1,205 @@
+import fs from 'fs';
+import dns from 'dns';
+import { execSync } from 'child_process';
+import { LeakCheckResult, LeakTestReport, ManagedInterface, WireGuardConfig } from '../types/index.js';
+import wireguardManager from './wireguardManager.js';
+import ipResolver from '../api/ipResolver.js';
+import { getConfig } from '../utils/config.js';
+import logger from '../utils/logger.js';
+
+// systemd-resolved and similar local stubs forward to per-link servers
+const STUB_RESOLVERS = ['127.0.0.53', '127.0.0.54', '127.0.0.1', '::1'];
+
+/**
+ * Class to check that an active route does not leak DNS queries, IPv6 traffic or the original IP
+ */
+export class LeakTest {
+  /**
+   * Run every check against the active route
+   * @param config Lease of the exit hop
+   * @param interfaces Interfaces of the route, entry first
+   * @param originalIp Public IP recorded before the tunnel came up
+   * @returns Promise resolving to the report, passed only if no check failed
+   */
+  async run(config: WireGuardConfig, interfaces: ManagedInterface[], originalIp?: string): Promise<LeakTestReport> {
+    const exit = interfaces[interfaces.length - 1];
+    const names = interfaces.map(managed => managed.name);
+    const tunnelDns = (config.dns || '').split(',').map(server => server.trim()).filter(server => server);
+    
+    const checks: LeakCheckResult[] = [
+      this.checkResolver(tunnelDns, exit.name),
+      this.checkIpv6Route(names),
+      ...(await this.checkExitIp(config, originalIp)),
+      await this.checkDnsEgress(tunnelDns, exit.name, names)
+    ];
+    
+    return {
+      passed: checks.every(check => check.status !== 'fail'),
+      interfaceName: exit.name,
+      checks,
+      checkedAt: new Date().toISOString()
+    };
+  }
+  
+  /**
+   * Check that the system resolver uses the tunnel DNS
+   */
+  private checkResolver(tunnelDns: string[], interfaceName: string): LeakCheckResult {
+    const name = 'dns-resolver';
+    if (tunnelDns.length === 0) {
+      return { name, status: 'skip', detail: 'The lease does not set a DNS server' };
+    }
+    
+    const { resolvConf } = getConfig().leakTest;
+    let nameservers: string[];
+    try {
+      nameservers = fs.readFileSync(resolvConf, 'utf8').split('\n')
+        .map(line => line.trim().match(/^nameserver\s+(\S+)/)?.[1])
+        .filter((server): server is string => !!server);
+    } catch (error) {
+      return { name, status: 'fail', detail: `Cannot read ${resolvConf}: ${(error as Error).message}` };
+    }
+    
+    if (nameservers.length > 0 && nameservers.every(server => STUB_RESOLVERS.includes(server))) {
+      return this.checkStubResolver(name, tunnelDns, interfaceName);
+    }
+    
+    const foreign = nameservers.filter(server => !tunnelDns.includes(server));
+    if (nameservers.length === 0 || foreign.length > 0) {
+      return {
+        name,
+        status: 'fail',
+        detail: `System resolver uses ${foreign.join(', ') || 'no server'}, expected ${tunnelDns.join(', ')}`
+      };
+    }
+    return { name, status: 'pass', detail: `System resolver uses the tunnel DNS (${nameservers.join(', ')})` };
+  }
+  
+  /**
+   * Check the servers of a local stub resolver (systemd-resolved)
+   */
+  private checkStubResolver(name: string, tunnelDns: string[], interfaceName: string): LeakCheckResult {
+    try {
+      const servers = execSync(`resolvectl dns ${interfaceName}`, { stdio: 'pipe' }).toString();
+      if (!tunnelDns.some(server => servers.includes(server))) {
+        return { name, status: 'fail', detail: `systemd-resolved has no tunnel DNS on ${interfaceName}` };
+      }
+      
+      // Without the catch-all routing domain, other links keep answering queries
+      const domains = execSync(`resolvectl domain ${interfaceName}`, { stdio: 'pipe' }).toString();
+      if (!/(^|\s)~\.(\s|$)/.test(domains.split(':').slice(1).join(':'))) {
+        return { name, status: 'fail', detail: `systemd-resolved does not route all queries to ${interfaceName} (no ~. domain)` };
+      }
+      return { name, status: 'pass', detail: `systemd-resolved sends all queries to the tunnel DNS on ${interfaceName}` };
+    } catch (error) {
+      return { name, status: 'fail', detail: 'Local stub resolver in use and resolvectl is unavailable to check it' };
+    }
+  }
+  
+  /**
+   * Check that IPv6 traffic does not take a route outside the tunnel
+   */
+  private checkIpv6Route(interfaceNames: string[]): LeakCheckResult {
+    const name = 'ipv6-route';
+    const { ipv6Probe } = getConfig().leakTest;
+    
+    let output: string;
+    try {
+      output = execSync(`ip -6 route get ${ipv6Probe}`, { stdio: 'pipe' }).toString();
+    } catch (error) {
+      // No IPv6 route at all cannot leak
+      return { name, status: 'pass', detail: `No IPv6 route to ${ipv6Probe}` };
+    }
+    
+    const device = output.match(/\bdev\s+(\S+)/)?.[1];
+    if (device && interfaceNames.includes(device)) {
+      return { name, status: 'pass', detail: `IPv6 traffic to ${ipv6Probe} goes through ${device}` };
+    }
+    if (/\b(unreachable|prohibit|blackhole)\b/.test(output)) {
+      return { name, status: 'pass', detail: `IPv6 traffic to ${ipv6Probe} is blocked` };
+    }
+    return { name, status: 'fail', detail: `IPv6 traffic to ${ipv6Probe} bypasses the tunnel via ${device || 'an unknown device'}` };
+  }
+  
+  /**
+   * Check that the public IPv4 and IPv6 differ from the original IP
+   */
+  private async checkExitIp(config: WireGuardConfig, originalIp?: string): Promise<LeakCheckResult[]> {
+    const current = await ipResolver.getPublicIps();
+    const results: LeakCheckResult[] = [];
+    
+    const change = ipResolver.compare(originalIp, current);
+    const family = originalIp?.includes(':') ? 'ipv6' : 'ipv4';
+    if (change === 'unchanged') {
+      results.push({ name: 'exit-ip', status: 'fail', detail: `Public ${family === 'ipv6' ? 'IPv6' : 'IPv4'} is still the original ${originalIp}` });
+    } else if (change === 'changed') {
+      results.push({ name: 'exit-ip', status: 'pass', detail: `Public IP changed from ${originalIp} to ${current[family]}` });
+    } else {
+      results.push({ name: 'exit-ip', status: 'skip', detail: originalIp ? 'Public IP providers did not agree on an address' : 'No original IP was recorded at connect time' });
+    }
+    
+    // An IPv6 address while the tunnel has none means IPv6 leaves outside it
+    const tunnelHasIpv6 = (config.address || '').includes(':');
+    if (current.ipv6 && !tunnelHasIpv6) {
+      results.push({ name: 'exit-ipv6', status: 'fail', detail: `Public IPv6 ${current.ipv6} is reachable but the tunnel has no IPv6 address` });
+    } else if (current.ipv6) {
+      results.push({ name: 'exit-ipv6', status: current.ipv6 === originalIp ? 'fail' : 'pass', detail: `Public IPv6 is ${current.ipv6}` });
+    } else {
+      results.push({ name: 'exit-ipv6', status: 'pass', detail: 'No public IPv6 address is visible' });
+    }
+    
+    return results;
+  }
+  
+  /**
+   * Check that DNS queries to the tunnel DNS are routed through, and counted on, the WireGuard interface
+   */
+  private async checkDnsEgress(tunnelDns: string[], exitInterface: string, interfaceNames: string[]): Promise<LeakCheckResult> {
+    const name = 'dns-egress';
+    if (tunnelDns.length === 0) {
+      return { name, status: 'skip', detail: 'The lease does not set a DNS server' };
+    }
+    
+    const server = tunnelDns[0];
+    try {
+      const output = execSync(`ip route get ${server}`, { stdio: 'pipe' }).toString();
+      const device = output.match(/\bdev\s+(\S+)/)?.[1];
+      if (!device || !interfaceNames.includes(device)) {
+        return { name, status: 'fail', detail: `Queries to ${server} leave via ${device || 'an unknown device'}` };
+      }
+    } catch (error) {
+      return { name, status: 'fail', detail: `No route to the tunnel DNS ${server}` };
+    }
+    
+    // Send a real query and watch the tunnel counters move
+    const before = this.getTxBytes(exitInterface);
+    const resolver = new dns.promises.Resolver({ timeout: 3000, tries: 1 });
+    resolver.setServers([server]);
+    const { dnsProbeHost } = getConfig().leakTest;
+    try {
+      await resolver.resolve(dnsProbeHost);
+    } catch (error) {
+      logger.debug(`DNS probe ${dnsProbeHost} via ${server} failed: ${(error as Error).message}`);
+    }
+    const after = this.getTxBytes(exitInterface);
+    
+    if (before === null || after === null) {
+      return { name, status: 'fail', detail: `Cannot read the counters of ${exitInterface}` };
+    }
+    if (after <= before) {
+      return { name, status: 'fail', detail: `Resolving ${dnsProbeHost} via ${server} sent nothing through ${exitInterface}` };
+    }
+    return { name, status: 'pass', detail: `Resolving ${dnsProbeHost} via ${server} went through ${exitInterface} (${after - before} bytes)` };
+  }
+  
+  /**
+   * Get the bytes sent by an interface to its peers
+   */
+  private getTxBytes(interfaceName: string): number | null {
+    const peers = wireguardManager.getPeerStats(interfaceName);
+    return peers ? peers.reduce((sum, peer) => sum + peer.txBytes, 0) : null;
+  }
+}
+
+// Export singleton instance
+export default new LeakTest();
@@ -0,0 +1,169 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { ChildProcess, execSync, spawn } from 'child_process';
+import { WireGuardConfig } from '../types/index.js';
+import wireguardManager from './wireguardManager.js';
+import logger from '../utils/logger.js';
+
+// ip-netns bind-mounts /etc/netns/<name>/resolv.conf over /etc/resolv.conf inside the namespace
+const NETNS_ETC_DIR = '/etc/netns';
+
+/**
+ * Class to run a single command inside a network namespace whose only route is a WireGuard tunnel
+ */
+export class NamespaceRunner {
+  // Command running in the namespace, signals are forwarded to it
+  private child: ChildProcess | null = null;
+  
+  /**
+   * Get the namespace name used for a configuration
+   * @param config WireGuard configuration
+   * @returns Namespace name
+   */
+  getNamespaceName(config: WireGuardConfig): string {
+    return `tpn-ns-${config.id.substring(0, 8)}`;
+  }
+  
+  /**
+   * Run a command inside a namespace routed through the given lease
+   * @param config WireGuard configuration for the namespace tunnel
+   * @param command Command and its arguments
+   * @returns Promise resolving to the exit code of the command
+   */
+  async run(config: WireGuardConfig, command: string[]): Promise<number> {
+    const namespace = this.getNamespaceName(config);
+    
+    // Installed before the setup, a Ctrl-C while waiting for the handshake must not leave the namespace behind
+    const onSignal = (signal: NodeJS.Signals) => {
+      if (this.child) {
+        this.child.kill(signal);
+        return;
+      }
+      logger.warn(`Interrupted by ${signal}, removing namespace ${namespace}`);
+      this.teardown(namespace);
+      process.exit(128 + (os.constants.signals[signal] || 0));
+    };
+    process.on('SIGINT', onSignal);
+    process.on('SIGTERM', onSignal);
+    
+    try {
+      try {
+        await this.setup(config, namespace);
+      } catch (error) {
+        logger.error(`Failed to set up namespace ${namespace}: ${(error as Error).message}`);
+        this.teardown(namespace);
+        throw error;
+      }
+      
+      try {
+        return await this.spawnInNamespace(namespace, command);
+      } finally {
+        this.teardown(namespace);
+      }
+    } finally {
+      process.off('SIGINT', onSignal);
+      process.off('SIGTERM', onSignal);
+    }
+  }
+  
+  /**
+   * Create the namespace and its tunnel interface
+   */
+  private async setup(config: WireGuardConfig, namespace: string): Promise<void> {
+    const interfaceName = wireguardManager.getInterfaceName(config);
+    const setconfPath = path.join(os.tmpdir(), `${interfaceName}.setconf`);
+    const run = (cmd: string) => execSync(cmd, { stdio: 'pipe' });
+    
+    logger.info(`Creating network namespace ${namespace}...`);
+    run(`ip netns add ${namespace}`);
+    
+    try {
+      // The interface is created here so its UDP socket stays in the host namespace and can
+      // reach the endpoint, then it is moved into the namespace where it becomes the only route
+      fs.writeFileSync(setconfPath, this.renderSetconf(config), { mode: 0o600 });
+      run(`ip link add ${interfaceName} type wireguard`);
+      run(`wg setconf ${interfaceName} ${setconfPath}`);
+      run(`ip link set ${interfaceName} netns ${namespace}`);
+    } finally {
+      fs.rmSync(setconfPath, { force: true });
+    }
+    
+    const address = config.address || '10.13.13.2';
+    run(`ip -n ${namespace} address add ${address}/32 dev ${interfaceName}`);
+    run(`ip -n ${namespace} link set lo up`);
+    run(`ip -n ${namespace} link set ${interfaceName} up`);
+    run(`ip -n ${namespace} route add default dev ${interfaceName}`);
+    
+    // Name resolution inside the namespace goes to the tunnel DNS only
+    const resolvDir = path.join(NETNS_ETC_DIR, namespace);
+    fs.mkdirSync(resolvDir, { recursive: true });
+    const nameservers = (config.dns || '10.13.13.1').split(',').map(dns => `nameserver ${dns.trim()}`);
+    fs.writeFileSync(path.join(resolvDir, 'resolv.conf'), nameservers.join('\n') + '\n');
+    
+    if (!(await wireguardManager.waitForHandshake(interfaceName, 10000, undefined, namespace))) {
+      logger.warn(`No handshake yet on ${interfaceName}, the command may not have connectivity`);
+    }
+    logger.success(`Namespace ${namespace} routed through ${config.country || config.endpoint}`);
+  }
+  
+  /**
+   * Render the subset of the configuration understood by `wg setconf`
+   */
+  private renderSetconf(config: WireGuardConfig): string {
+    const lines = [
+      '[Interface]',
+      `PrivateKey = ${config.privateKey}`,
+      '',
+      '[Peer]',
+      `PublicKey = ${config.publicKey}`,
+    ];
+    if (config.presharedKey) {
+      lines.push(`PresharedKey = ${config.presharedKey}`);
+    }
+    lines.push(
+      `Endpoint = ${config.endpoint}`,
+      'AllowedIPs = 0.0.0.0/0, ::/0',
+      'PersistentKeepalive = 25'
+    );
+    return lines.join('\n') + '\n';
+  }
+  
+  /**
+   * Run the command in the namespace, inheriting stdio; run() forwards signals to it
+   */
+  private spawnInNamespace(namespace: string, command: string[]): Promise<number> {
+    return new Promise<number>((resolve, reject) => {
+      logger.debug(`Running in ${namespace}: ${command.join(' ')}`);
+      const child = spawn('ip', ['netns', 'exec', namespace, ...command], { stdio: 'inherit' });
+      this.child = child;
+      
+      child.on('error', error => {
+        this.child = null;
+        reject(error);
+      });
+      child.on('exit', (code, signal) => {
+        this.child = null;
+        // Follow the shell convention for commands killed by a signal
+        resolve(code ?? (signal ? 128 + (os.constants.signals[signal] || 0) : 1));
+      });
+    });
+  }
+  
+  /**
+   * Delete the namespace, its interface and its resolv.conf
+   */
+  private teardown(namespace: string): void {
+    try {
+      // Deleting the namespace destroys the WireGuard interface inside it
+      execSync(`ip netns delete ${namespace}`, { stdio: 'ignore' });
+    } catch (error) {
+      logger.debug(`Namespace ${namespace} was not present`);
+    }
+    fs.rmSync(path.join(NETNS_ETC_DIR, namespace), { recursive: true, force: true });
+    logger.info(`Removed namespace ${namespace}`);
+  }
+}
+
+// Export singleton instance
+export default new NamespaceRunner();
@@ -0,0 +1,81 @@
+import dns from 'dns';
+import { SplitTunnelRules } from '../types/index.js';
+import wireguardManager from './wireguardManager.js';
+import { isCidr, subtractCidrs } from '../utils/cidr.js';
+import logger from '../utils/logger.js';
+
+// Everything, for both address families
+const FULL_TUNNEL = ['0.0.0.0/0', '::/0'];
+
+/**
+ * Class to turn include/exclude rules into WireGuard AllowedIPs
+ */
+export class SplitTunnel {
+  /**
+   * Check if rules restrict the tunnel at all
+   * @param rules Split tunnel rules
+   * @returns Boolean indicating if only part of the traffic uses the tunnel
+   */
+  isActive(rules: SplitTunnelRules | null | undefined): rules is SplitTunnelRules {
+    return !!rules && (rules.include.length > 0 || rules.exclude.length > 0);
+  }
+  
+  /**
+   * Resolve rule entries to prefixes, domains become one host prefix per address
+   * @param entries CIDR prefixes, IP addresses or domain names
+   * @returns Promise resolving to prefixes
+   */
+  async resolveEntries(entries: string[]): Promise<string[]> {
+    const prefixes: string[] = [];
+    
+    for (const entry of entries.map(e => e.trim()).filter(e => e)) {
+      if (isCidr(entry)) {
+        prefixes.push(entry);
+        continue;
+      }
+      
+      try {
+        const addresses = await dns.promises.lookup(entry, { all: true });
+        for (const { address, family } of addresses) {
+          prefixes.push(family === 6 ? `${address}/128` : `${address}/32`);
+        }
+        logger.debug(`Resolved ${entry} to ${addresses.map(a => a.address).join(', ')}`);
+      } catch (error) {
+        logger.warn(`Could not resolve ${entry} for split tunneling: ${(error as Error).message}`);
+      }
+    }
+    
+    return prefixes;
+  }
+  
+  /**
+   * Compute the AllowedIPs for a tunnel
+   * @param rules Split tunnel rules, or null for a full tunnel
+   * @param endpoints Endpoints reached outside this tunnel, always left out of the result
+   * @returns Promise resolving to the AllowedIPs, or undefined for the default full tunnel
+   */
+  async computeAllowedIPs(rules: SplitTunnelRules | null | undefined, endpoints: string[]): Promise<string[] | undefined> {
+    if (!this.isActive(rules)) {
+      return undefined;
+    }
+    
+    const included = rules.include.length > 0 ? await this.resolveEntries(rules.include) : FULL_TUNNEL;
+    const excluded = await this.resolveEntries(rules.exclude);
+    
+    // Without the /0 policy routing of wg-quick, the tunnel endpoints must stay outside the routes
+    for (const endpoint of endpoints) {
+      excluded.push(await wireguardManager.resolveEndpointHost(endpoint));
+    }
+    
+    const allowedIPs = subtractCidrs(included, excluded);
+    if (allowedIPs.length === 0) {
+      throw new Error('Split tunnel rules leave nothing to route through the tunnel');
+    }
+    
+    logger.info(`Split tunnel: ${allowedIPs.length} prefixes routed through the tunnel`);
+    return allowedIPs;
+  }
+}
+
+// Export singleton instance
+export default new SplitTunnel();
@@ -1,11 +1,25 @@
 import fs from 'fs';
 import path from 'path';
 import { promises as fsPromises } from 'fs';
-import { execSync, spawn } from 'child_process';
+import { execSync } from 'child_process';
 import { v4 as uuidv4 } from 'uuid';
-import { WireGuardConfig, TpnConfigResponse } from '../types/index.js';
+import { WireGuardConfig, TpnConfigResponse, InterfaceInfo, SaveConfigOptions, PeerStats, DryRunConfig } from '../types/index.js';
 import logger from '../utils/logger.js';
+import { getState } from '../utils/state.js';
+import { getConfig } from '../utils/config.js';
+import { lookupCountry } from '../utils/geoip.js';
+import { parseCountryChain } from '../utils/countries.js';
+import { cidrsContain } from '../utils/cidr.js';
+import tpnClient from '../api/tpnClient.js';
+import ipResolver from '../api/ipResolver.js';
 import os from 'os';
+import dns from 'dns';
+import net from 'net';
+
+// Prefix of the interfaces created by tpn-router, distinct from the usual wgN names
+const INTERFACE_PREFIX = 'tpn-';
+// Routing table wg-quick uses for a default route when no FwMark is set
+const WG_QUICK_DEFAULT_TABLE = 51820;
 
 /**
  * Class for managing WireGuard configurations and connections
@@ -23,7 +37,7 @@ export class WireGuardManager {
    */
   private ensureConfigDirExists(): void {
     if (!fs.existsSync(this.configDir)) {
-      fs.mkdirSync(this.configDir, { recursive: true });
+      fs.mkdirSync(this.configDir, { recursive: true, mode: 0o700 });
       logger.debug(`Created config directory: ${this.configDir}`);
     }
   }
@@ -115,13 +129,128 @@ export class WireGuardManager {
   }
   
   /**
-   * Save a WireGuard configuration to disk
-   * @param config WireGuard configuration to save
-   * @returns Path to the saved configuration file
+   * Check that a parsed configuration can be brought up
+   * @param config Parsed WireGuard configuration
+   * @returns Problems found, empty if the configuration is usable
+   */
+  validateConfig(config: WireGuardConfig): string[] {
+    const errors: string[] = [];
+    // WireGuard keys are 32 bytes in base64
+    const isKey = (key: string) => /^[A-Za-z0-9+/]{43}=$/.test(key) && Buffer.from(key, 'base64').length === 32;
+    
+    if (!isKey(config.privateKey)) {
+      errors.push('PrivateKey is missing or not a WireGuard key');
+    }
+    if (!isKey(config.publicKey)) {
+      errors.push('peer PublicKey is missing or not a WireGuard key');
+    }
+    if (config.presharedKey && !isKey(config.presharedKey)) {
+      errors.push('PresharedKey is not a WireGuard key');
+    }
+    
+    const endpoint = config.endpoint.match(/^(?:\[[0-9a-fA-F:.]+\]|[^\s:\[\]]+):(\d+)$/);
+    const port = endpoint ? parseInt(endpoint[1], 10) : 0;
+    if (port < 1 || port > 65535) {
+      errors.push(`Endpoint '${config.endpoint}' is not a host:port pair`);
+    }
+    if (!config.address) {
+      errors.push('Address is missing or has no IPv4 address');
+    }
+    return errors;
+  }
+  
+  /**
+   * Load an existing WireGuard config file as a lease
+   * @param filePath Path of the .conf file
+   * @param expiresAt Expiry timestamp, inferred from the file age and default lease duration if omitted
+   * @param country Country code, looked up in the GeoIP database if omitted
+   * @returns Promise resolving to the parsed configuration
+   */
+  async loadConfigFile(filePath: string, expiresAt?: number, country?: string): Promise<WireGuardConfig> {
+    const text = await fsPromises.readFile(filePath, 'utf-8');
+    const config = this.parseConfig(text, expiresAt || 0, country?.toUpperCase());
+    
+    const errors = this.validateConfig(config);
+    if (errors.length > 0) {
+      throw new Error(`Invalid WireGuard config ${filePath}: ${errors.join(', ')}`);
+    }
+    
+    const { defaultLeaseDuration, geoip } = getConfig();
+    if (!expiresAt) {
+      // Les baux TPN sont enregistrés à leur création, le fichier date donc le début du bail
+      const { mtimeMs } = await fsPromises.stat(filePath);
+      config.expiresAt = mtimeMs + defaultLeaseDuration * 60000;
+      if (config.expiresAt <= Date.now()) {
+        logger.warn(`${path.basename(filePath)} is older than the default lease duration, assuming a new ${defaultLeaseDuration}-minute lease`);
+        config.expiresAt = Date.now() + defaultLeaseDuration * 60000;
+      }
+    }
+    
+    if (!config.country && geoip.database) {
+      try {
+        config.country = lookupCountry(geoip.database, await this.resolveEndpointHost(config.endpoint));
+      } catch (error) {
+        logger.warn(`Could not look up the country of ${config.endpoint}: ${(error as Error).message}`);
+      }
+    }
+    
+    config.imported = true;
+    return config;
+  }
+  
+  /**
+   * Get the interface name used for a configuration
+   * @param config WireGuard configuration
+   * @returns Interface name (also the basename of the saved config file)
+   */
+  getInterfaceName(config: WireGuardConfig): string {
+    return `${INTERFACE_PREFIX}${config.id.substring(0, 8)}`;
+  }
+  
+  /**
+   * Check whether a network interface currently exists
+   * @param interfaceName Name of the interface
+   * @returns Boolean indicating if the interface exists
+   */
+  interfaceExists(interfaceName: string): boolean {
+    try {
+      execSync(`ip link show ${interfaceName}`, { stdio: 'ignore' });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+  
+  /**
+   * Keep only the DNS servers routed through the tunnel. wg-quick points the host's resolver at
+   * the DNS line, so a server outside AllowedIPs would leave the host unable to resolve anything.
+   * @param rendered Configuration text
+   * @param allowedIPs AllowedIPs of the peer
+   * @returns Configuration text, without DNS line if no server is reachable through the tunnel
+   */
+  private keepRoutedDns(rendered: string, allowedIPs: string[]): string {
+    const line = rendered.match(/^DNS\s*=\s*(.*)$/m);
+    if (!line) return rendered;
+    
+    const servers = line[1].split(',').map(server => server.trim()).filter(server => server);
+    // Search domains are kept as long as one server is left
+    const routed = servers.filter(server => net.isIP(server) === 0 || cidrsContain(allowedIPs, server));
+    if (routed.some(server => net.isIP(server) !== 0)) {
+      return rendered.replace(/^DNS\s*=.*$/m, `DNS = ${routed.join(', ')}`);
+    }
+    
+    logger.info(`DNS ${servers.join(', ')} is outside the split tunnel, keeping the system resolver`);
+    return rendered.replace(/^DNS\s*=.*\n?/m, '');
+  }
+  
+  /**
+   * Render the final WireGuard configuration text written to disk
+   * @param config WireGuard configuration to render
+   * @param options Per-interface overrides (circuit hops)
+   * @returns Rewritten configuration text
    */
-  async saveConfig(config: WireGuardConfig): Promise<string> {
-    const interfaceName = `wg-${config.id.substring(0, 8)}`;
-    const configPath = path.join(this.configDir, `${interfaceName}.conf`);
+  renderConfig(config: WireGuardConfig, options: SaveConfigOptions = {}): string {
+    const { includeDns = true } = options;
     
     // Vérifier et modifier la configuration WireGuard si nécessaire
     let modifiedConfig = config.raw;
@@ -136,8 +265,10 @@ export class WireGuardManager {
       );
     }
     
-    // 2. S'assurer qu'elle contient une ligne DNS
-    if (!modifiedConfig.includes('DNS =')) {
+    // 2. S'assurer qu'elle contient une ligne DNS (sauf pour les hops intermédiaires)
+    if (!includeDns) {
+      modifiedConfig = modifiedConfig.replace(/^DNS\s*=.*\n?/m, '');
+    } else if (!modifiedConfig.includes('DNS =')) {
       // Ajouter DNS après la dernière ligne de la section Interface mais avant Peer
       modifiedConfig = modifiedConfig.replace(
         /\[Interface\]([\s\S]*?)(?=\[Peer\])/,
@@ -145,8 +276,18 @@ export class WireGuardManager {
       );
     }
     
+    // Un split tunnel qui ne couvre pas le résolveur du tunnel casserait toute la résolution DNS
+    if (includeDns && options.allowedIPs) {
+      modifiedConfig = this.keepRoutedDns(modifiedConfig, options.allowedIPs);
+    }
+    
     // 3. S'assurer que AllowedIPs est correctement configuré pour tout le trafic
-    if (!modifiedConfig.includes('AllowedIPs = 0.0.0.0/0') && 
+    if (options.allowedIPs) {
+      modifiedConfig = modifiedConfig.replace(
+        /AllowedIPs\s*=\s*[^\n]*/,
+        `AllowedIPs = ${options.allowedIPs.join(', ')}`
+      );
+    } else if (!modifiedConfig.includes('AllowedIPs = 0.0.0.0/0') && 
         !modifiedConfig.includes('AllowedIPs = 0.0.0.0/0, ::/0')) {
       modifiedConfig = modifiedConfig.replace(
         /AllowedIPs\s*=\s*[^\n]*/,
@@ -154,14 +295,311 @@ export class WireGuardManager {
       );
     }
     
+    // 4. Réglages propres à chaque interface d'un circuit
+    if (options.omitListenPort) {
+      // Plusieurs interfaces ne peuvent pas écouter sur le même port
+      modifiedConfig = modifiedConfig.replace(/^ListenPort\s*=.*\n?/m, '');
+    }
+    if (options.mtu !== undefined) {
+      modifiedConfig = modifiedConfig
+        .replace(/^MTU\s*=.*\n?/m, '')
+        .replace('[Interface]', `[Interface]\nMTU = ${options.mtu}`);
+    }
+    if (options.fwMark !== undefined) {
+      modifiedConfig = modifiedConfig
+        .replace(/^FwMark\s*=.*\n?/m, '')
+        .replace('[Interface]', `[Interface]\nFwMark = ${options.fwMark}`);
+    }
+    if (options.persistentKeepalive !== undefined) {
+      modifiedConfig = modifiedConfig
+        .replace(/^PersistentKeepalive\s*=.*\n?/m, '')
+        .replace('[Peer]', `[Peer]\nPersistentKeepalive = ${options.persistentKeepalive}`);
+    }
+    
+    return modifiedConfig;
+  }
+  
+  /**
+   * Get the path a configuration is saved to
+   * @param interfaceName Name of the WireGuard interface
+   * @returns Path of the config file
+   */
+  getConfigPath(interfaceName: string): string {
+    return path.join(this.configDir, `${interfaceName}.conf`);
+  }
+  
+  /**
+   * Describe the file saveConfig would write, for dry runs
+   * @param config WireGuard configuration
+   * @param options Same overrides as saveConfig
+   * @returns Interface, path and rendered text with the keys redacted
+   */
+  describeConfig(config: WireGuardConfig, options: SaveConfigOptions = {}): DryRunConfig {
+    const interfaceName = options.interfaceName || this.getInterfaceName(config);
+    const rendered = this.renderConfig(config, options);
+    const allowedIPs = rendered.match(/^AllowedIPs\s*=\s*(.*)$/m);
+    return {
+      interfaceName,
+      configPath: this.getConfigPath(interfaceName),
+      country: config.country,
+      endpoint: config.endpoint,
+      expiresAt: config.expiresAt,
+      allowedIPs: allowedIPs ? allowedIPs[1].split(',').map(ip => ip.trim()) : [],
+      config: rendered.replace(/^(\s*(?:PrivateKey|PresharedKey)\s*=\s*).*$/gm, '$1<redacted>')
+    };
+  }
+  
+  /**
+   * List the routes and rules wg-quick installs for the AllowedIPs of an interface
+   * @param interfaceName Name of the WireGuard interface
+   * @param allowedIPs AllowedIPs of its peer
+   * @param fwMark FwMark of the interface, if set
+   * @returns ip commands run by wg-quick up
+   */
+  getRouteChanges(interfaceName: string, allowedIPs: string[], fwMark?: number): string[] {
+    const table = fwMark ?? WG_QUICK_DEFAULT_TABLE;
+    const changes: string[] = [];
+    
+    for (const prefix of allowedIPs) {
+      const family = prefix.includes(':') ? '-6' : '-4';
+      if (prefix.endsWith('/0')) {
+        // Default routes go through a separate table, packets marked by WireGuard bypass it
+        changes.push(
+          `ip ${family} route add ${prefix} dev ${interfaceName} table ${table}`,
+          `ip ${family} rule add not fwmark ${table} table ${table}`,
+          `ip ${family} rule add table main suppress_prefixlength 0`
+        );
+      } else {
+        changes.push(`ip ${family} route add ${prefix} dev ${interfaceName}`);
+      }
+    }
+    return changes;
+  }
+  
+  /**
+   * Save a WireGuard configuration to disk
+   * @param config WireGuard configuration to save
+   * @param options Per-interface overrides (circuit hops, in-place lease swaps)
+   * @returns Path to the saved configuration file
+   */
+  async saveConfig(config: WireGuardConfig, options: SaveConfigOptions = {}): Promise<string> {
+    const interfaceName = options.interfaceName || this.getInterfaceName(config);
+    const configPath = this.getConfigPath(interfaceName);
+    const modifiedConfig = this.renderConfig(config, options);
+    
     // Logger la configuration finale pour le débogage
     logger.debug(`Configuration WireGuard finale: \n${modifiedConfig}`);
     
-    await fsPromises.writeFile(configPath, modifiedConfig);
+    await fsPromises.writeFile(configPath, modifiedConfig, { mode: 0o600 });
     logger.debug(`Saved WireGuard config to ${configPath}`);
     return configPath;
   }
   
+  /**
+   * Resolve the host part of a WireGuard endpoint to an IP address
+   * @param endpoint Endpoint in host:port or [v6]:port form
+   * @returns Promise resolving to the endpoint IP address
+   */
+  async resolveEndpointHost(endpoint: string): Promise<string> {
+    const match = endpoint.match(/^\[([^\]]+)\]:\d+$/) || endpoint.match(/^([^:]+):\d+$/);
+    const host = match ? match[1] : endpoint;
+    
+    if (net.isIP(host)) {
+      return host;
+    }
+    
+    const { address } = await dns.promises.lookup(host);
+    return address;
+  }
+  
+  /**
+   * Get the time of the latest handshake on an interface
+   * @param interfaceName Name of the WireGuard interface
+   * @param publicKey Only consider this peer (defaults to every peer)
+   * @param namespace Network namespace holding the interface (defaults to the host)
+   * @returns Unix timestamp in seconds of the latest handshake, or 0 if none
+   */
+  getLatestHandshake(interfaceName: string, publicKey?: string, namespace?: string): number {
+    try {
+      const prefix = namespace ? `ip netns exec ${namespace} ` : '';
+      const output = execSync(`${prefix}wg show ${interfaceName} latest-handshakes`, { stdio: 'pipe' }).toString();
+      const timestamps = output.split('\n')
+        .map(line => line.trim().split(/\s+/))
+        .filter(([peer]) => !publicKey || peer === publicKey)
+        .map(([, ts]) => parseInt(ts, 10))
+        .filter(ts => !isNaN(ts));
+      return timestamps.length > 0 ? Math.max(...timestamps) : 0;
+    } catch (error) {
+      return 0;
+    }
+  }
+  
+  /**
+   * Read the peers of an interface with their handshake time and transfer counters
+   * @param interfaceName Name of the WireGuard interface
+   * @returns Peer counters, or null if the interface cannot be read
+   */
+  getPeerStats(interfaceName: string): PeerStats[] | null {
+    try {
+      const output = execSync(`wg show ${interfaceName} dump`, { stdio: 'pipe' }).toString();
+      // The first line describes the interface itself, one line per peer follows:
+      // public-key preshared-key endpoint allowed-ips latest-handshake transfer-rx transfer-tx keepalive
+      return output.trim().split('\n').slice(1)
+        .map(line => line.split('\t'))
+        .filter(fields => fields.length >= 7)
+        .map(fields => ({
+          publicKey: fields[0],
+          endpoint: fields[2] !== '(none)' ? fields[2] : undefined,
+          latestHandshake: parseInt(fields[4], 10) || 0,
+          rxBytes: parseInt(fields[5], 10) || 0,
+          txBytes: parseInt(fields[6], 10) || 0
+        }));
+    } catch (error) {
+      logger.debug(`Could not read peer stats of ${interfaceName}: ${(error as Error).message}`);
+      return null;
+    }
+  }
+  
+  /**
+   * Wait until an interface has completed a handshake with its peer
+   * @param interfaceName Name of the WireGuard interface
+   * @param timeoutMs Maximum time to wait
+   * @param publicKey Only consider this peer (defaults to every peer)
+   * @param namespace Network namespace holding the interface (defaults to the host)
+   * @returns Promise resolving to boolean indicating if a handshake happened
+   */
+  async waitForHandshake(
+    interfaceName: string,
+    timeoutMs: number = 10000,
+    publicKey?: string,
+    namespace?: string
+  ): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+    
+    while (Date.now() < deadline) {
+      if (this.getLatestHandshake(interfaceName, publicKey, namespace) > 0) {
+        return true;
+      }
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
+    
+    return false;
+  }
+  
+  /**
+   * Replace the lease of a running interface in place, without taking the interface down.
+   * Routes, DNS and firewall marks set up by wg-quick stay untouched, so traffic never
+   * leaves the tunnel; packets sent during the new handshake are queued by WireGuard.
+   * @param interfaceName Name of the running WireGuard interface
+   * @param oldConfig Lease currently configured on the interface
+   * @param newConfig Lease to switch to
+   * @param newAllowedIPs AllowedIPs for the new peer (defaults to those of the old peer)
+   * @returns Boolean indicating success
+   */
+  swapPeer(
+    interfaceName: string,
+    oldConfig: WireGuardConfig,
+    newConfig: WireGuardConfig,
+    newAllowedIPs?: string[]
+  ): boolean {
+    const keyFile = path.join(this.configDir, `.${interfaceName}.key`);
+    const pskFile = path.join(this.configDir, `.${interfaceName}.psk`);
+    
+    try {
+      let allowedIPs = '0.0.0.0/0,::/0';
+      if (newAllowedIPs) {
+        allowedIPs = newAllowedIPs.join(',');
+        // Split tunnels route each prefix explicitly, the new endpoint may need a new hole
+        if (!newAllowedIPs.some(ip => ip.endsWith('/0'))) {
+          this.syncRoutes(interfaceName, newAllowedIPs);
+        }
+      } else {
+        // Keep whatever AllowedIPs the interface routes today
+        try {
+          const output = execSync(`wg show ${interfaceName} allowed-ips`, { stdio: 'pipe' }).toString();
+          const line = output.split('\n').find(l => l.startsWith(oldConfig.publicKey));
+          const ips = line ? line.trim().split(/\s+/).slice(1).filter(ip => ip !== '(none)') : [];
+          if (ips.length > 0) allowedIPs = ips.join(',');
+        } catch (error) {
+          logger.debug(`Could not read allowed IPs of ${interfaceName}, using full tunnel`);
+        }
+      }
+      
+      // Keys go through files readable by the owner only, never on the command line
+      fs.writeFileSync(keyFile, newConfig.privateKey, { mode: 0o600 });
+      const pskArg = newConfig.presharedKey ? `preshared-key ${pskFile}` : '';
+      if (newConfig.presharedKey) {
+        fs.writeFileSync(pskFile, newConfig.presharedKey, { mode: 0o600 });
+      }
+      
+      // Moving AllowedIPs to the new peer switches traffic over in one step
+      execSync(
+        `wg set ${interfaceName} private-key ${keyFile} peer ${newConfig.publicKey} ${pskArg} ` +
+        `endpoint ${newConfig.endpoint} allowed-ips ${allowedIPs} persistent-keepalive 25`,
+        { stdio: 'pipe' }
+      );
+      if (oldConfig.publicKey !== newConfig.publicKey) {
+        execSync(`wg set ${interfaceName} peer ${oldConfig.publicKey} remove`, { stdio: 'pipe' });
+      }
+      
+      // Switch the tunnel address if the new lease uses another one
+      if (newConfig.address && newConfig.address !== oldConfig.address) {
+        execSync(`ip address add ${newConfig.address}/32 dev ${interfaceName}`, { stdio: 'pipe' });
+        if (oldConfig.address) {
+          try {
+            execSync(`ip address del ${oldConfig.address}/32 dev ${interfaceName}`, { stdio: 'pipe' });
+          } catch (error) {
+            logger.debug(`Old address ${oldConfig.address} was not on ${interfaceName}`);
+          }
+        }
+      }
+      
+      logger.debug(`Swapped peer on ${interfaceName} to ${newConfig.endpoint}`);
+      return true;
+    } catch (error) {
+      logger.error(`Failed to swap peer on ${interfaceName}: ${(error as Error).message}`);
+      return false;
+    } finally {
+      for (const file of [keyFile, pskFile]) {
+        if (fs.existsSync(file)) fs.unlinkSync(file);
+      }
+    }
+  }
+  
+  /**
+   * Make the routes through an interface match a list of prefixes, adding before removing
+   * @param interfaceName Name of the WireGuard interface
+   * @param prefixes Prefixes that must be routed through the interface
+   */
+  syncRoutes(interfaceName: string, prefixes: string[]): void {
+    const current: string[] = [];
+    for (const family of ['-4', '-6']) {
+      try {
+        const output = execSync(`ip ${family} route show dev ${interfaceName}`, { stdio: 'pipe' }).toString();
+        current.push(...output.split('\n')
+          .map(line => line.trim().split(/\s+/)[0])
+          .filter(dest => dest && dest !== 'default'));
+      } catch (error) {
+        logger.debug(`Could not list ${family} routes of ${interfaceName}`);
+      }
+    }
+    
+    // ip prints host routes without their prefix length
+    const normalize = (prefix: string) => prefix.includes('/') ? prefix : `${prefix}/${prefix.includes(':') ? 128 : 32}`;
+    const existing = current.map(normalize);
+    
+    for (const prefix of prefixes.filter(p => !existing.includes(p))) {
+      execSync(`ip route replace ${prefix} dev ${interfaceName}`, { stdio: 'pipe' });
+    }
+    for (const prefix of existing.filter(p => !prefixes.includes(p))) {
+      try {
+        execSync(`ip route del ${prefix} dev ${interfaceName}`, { stdio: 'pipe' });
+      } catch (error) {
+        logger.debug(`Route ${prefix} was already gone from ${interfaceName}`);
+      }
+    }
+  }
+  
   /**
    * Check if WireGuard is installed on the system
    * @returns Boolean indicating if WireGuard is available
@@ -178,12 +616,15 @@ export class WireGuardManager {
   /**
    * Activate a WireGuard configuration
    * @param configPath Path to the configuration file
+   * @param cleanupFirst Remove existing interfaces first (false when stacking circuit hops)
    * @returns Boolean indicating success
    */
-  activateConfig(configPath: string): boolean {
+  activateConfig(configPath: string, cleanupFirst: boolean = true): boolean {
     try {
       // S'assurer que les interfaces existantes sont nettoyées d'abord
-      this.cleanupAllInterfaces();
+      if (cleanupFirst) {
+        this.cleanupManagedInterfaces();
+      }
       
       // Utiliser wg-quick pour activer la configuration
       execSync(`wg-quick up ${configPath}`, { stdio: 'inherit' });
@@ -219,112 +660,150 @@ export class WireGuardManager {
     } catch (error) {
       logger.error(`Failed to deactivate WireGuard config: ${(error as Error).message}`);
       // Essayer de nettoyer manuellement en cas d'échec
-      this.cleanupAllInterfaces();
+      this.cleanupManagedInterfaces();
       return false;
     }
   }
   
   /**
    * Get the current public IP address
-   * @returns Promise resolving to the current public IP
+   * @returns Promise resolving to the current public IP, IPv4 if there is one
    */
   async getCurrentPublicIp(): Promise<string> {
+    const { ipv4, ipv6 } = await ipResolver.getPublicIps();
+    const ip = ipv4 || ipv6;
+    if (!ip) {
+      throw new Error('Public IP providers did not agree on an address');
+    }
+    return ip;
+  }
+  
+  /**
+   * List network interfaces whose name matches a pattern
+   * @param pattern Extended regular expression passed to grep
+   * @returns Interface names
+   */
+  private listInterfaces(pattern: string): string[] {
     try {
-      // Tester plusieurs services d'IP
-      const ipServices = [
-        'icanhazip.com',
-        'ifconfig.me',
-        'api.ipify.org',
-        'ipinfo.io/ip'
-      ];
-      
-      // Essayer chaque service jusqu'à ce qu'un fonctionne
-      for (const service of ipServices) {
+      const output = execSync(`ip link | grep -E "${pattern}"`, { stdio: 'pipe' }).toString();
+      return output.split('\n')
+        .filter(line => line.trim())
+        .map(line => {
+          const match = line.match(/\d+:\s+([^:@]+)[@:]?/);
+          return match ? match[1].trim() : null;
+        })
+        .filter((iface): iface is string => iface !== null);
+    } catch (error) {
+      // Si grep ne trouve rien, c'est normal
+      if ((error as any).status !== 1) {
+        logger.warn(`Error listing interfaces: ${(error as Error).message}`);
+      }
+      return [];
+    }
+  }
+  
+  /**
+   * Get the interfaces created by tpn-router: named with its prefix, recorded in the
+   * session state, or backed by a config file in its config directory
+   * @returns Names of the managed interfaces that currently exist
+   */
+  getManagedInterfaces(): string[] {
+    const recorded = getState().interfaces.map(managed => managed.name);
+    
+    return this.listInterfaces('wg[0-9]|wg-|' + INTERFACE_PREFIX).filter(iface =>
+      iface.startsWith(INTERFACE_PREFIX) ||
+      recorded.includes(iface) ||
+      fs.existsSync(path.join(this.configDir, `${iface}.conf`))
+    );
+  }
+  
+  /**
+   * Remove the given interfaces, through wg-quick when tpn-router has their config
+   * @param interfaces Interface names
+   */
+  private removeInterfaces(interfaces: string[]): void {
+    for (const iface of interfaces) {
+      try {
+        logger.info(`Removing interface: ${iface}`);
+        
+        // Essayer d'abord avec wg-quick si possible
         try {
-          logger.debug(`Trying to get IP from ${service}`);
-          const result = execSync(`curl -s ${service}`, { timeout: 5000 }).toString().trim();
-          
-          // Vérifier que c'est bien une adresse IP
-          if (/^\d+\.\d+\.\d+\.\d+$/.test(result)) {
-            return result;
+          const configPath = path.join(this.configDir, `${iface}.conf`);
+          if (fs.existsSync(configPath)) {
+            execSync(`wg-quick down ${configPath}`, { stdio: 'inherit' });
+            continue;
           }
-          logger.debug(`Invalid IP from ${service}: ${result}`);
-        } catch (err) {
-          logger.debug(`Failed to get IP from ${service}: ${err}`);
-          continue;
+        } catch (e) {
+          logger.debug(`Could not use wg-quick, falling back to ip command: ${e}`);
         }
+        
+        // Utiliser directement la commande ip
+        execSync(`ip link delete ${iface}`, { stdio: 'inherit' });
+      } catch (error) {
+        logger.warn(`Failed to clean up interface ${iface}: ${(error as Error).message}`);
       }
+    }
+  }
+  
+  /**
+   * List the commands that would remove the given interfaces
+   * @param interfaces Interface names
+   * @returns wg-quick down when tpn-router has the config, ip link delete otherwise
+   */
+  getRemovalCommands(interfaces: string[]): string[] {
+    return interfaces.map(iface => {
+      const configPath = this.getConfigPath(iface);
+      return fs.existsSync(configPath) ? `wg-quick down ${configPath}` : `ip link delete ${iface}`;
+    });
+  }
+  
+  /**
+   * List the commands a cleanup would run
+   * @param allWireguard Include WireGuard interfaces tpn-router did not create
+   * @returns Removal commands
+   */
+  getCleanupCommands(allWireguard: boolean = false): string[] {
+    return this.getRemovalCommands(allWireguard
+      ? this.listInterfaces('wg[0-9]|wg-|' + INTERFACE_PREFIX)
+      : this.getManagedInterfaces());
+  }
+  
+  /**
+   * Clean up the WireGuard interfaces created by tpn-router, leaving any other tunnel alone
+   * @returns Boolean indicating success
+   */
+  cleanupManagedInterfaces(): boolean {
+    try {
+      const interfaces = this.getManagedInterfaces();
       
-      // Utiliser spawn comme méthode de secours
-      const { stdout } = spawn('curl', ['icanhazip.com']);
-      let ip = '';
-      
-      for await (const chunk of stdout) {
-        ip += chunk;
+      if (interfaces.length === 0) {
+        logger.debug('No tpn-router interfaces to clean up');
+        return true;
       }
       
-      return ip.trim();
+      this.removeInterfaces(interfaces);
+      logger.success('tpn-router WireGuard interfaces cleaned up');
+      return true;
     } catch (error) {
-      logger.error(`Failed to get public IP: ${(error as Error).message}`);
-      throw error;
+      logger.error(`Failed to clean up WireGuard interfaces: ${(error as Error).message}`);
+      return false;
     }
   }
   
   /**
-   * Clean up all WireGuard interfaces
+   * Clean up every WireGuard interface on the system, including ones tpn-router did not create
    * @returns Boolean indicating success
    */
   cleanupAllInterfaces(): boolean {
     try {
-      // Tenter d'abord de trouver les interfaces WireGuard
-      let interfaces: string[] = [];
-      
-      try {
-        const output = execSync('ip link | grep -E "wg[0-9]|wg-"').toString();
-        interfaces = output.split('\n')
-          .filter(line => line.trim())
-          .map(line => {
-            const match = line.match(/\d+:\s+([^:@]+)[@:]?/);
-            return match ? match[1].trim() : null;
-          })
-          .filter((iface): iface is string => iface !== null);
-      } catch (error) {
-        // Si grep ne trouve rien, c'est normal
-        if ((error as any).status === 1 && (error as any).stderr.toString().trim() === '') {
-          logger.debug('No WireGuard interfaces to clean up');
-          return true;
-        }
-        logger.warn(`Error listing interfaces: ${(error as Error).message}`);
-      }
+      const interfaces = this.listInterfaces('wg[0-9]|wg-|' + INTERFACE_PREFIX);
       
       if (interfaces.length === 0) {
         logger.debug('No WireGuard interfaces found');
         return true;
       }
       
-      // Supprimer chaque interface trouvée
-      for (const iface of interfaces) {
-        try {
-          logger.info(`Removing interface: ${iface}`);
-          
-          // Essayer d'abord avec wg-quick si possible
-          try {
-            const configPath = path.join(this.configDir, `${iface}.conf`);
-            if (fs.existsSync(configPath)) {
-              execSync(`wg-quick down ${configPath}`, { stdio: 'inherit' });
-              continue;
-            }
-          } catch (e) {
-            logger.debug(`Could not use wg-quick, falling back to ip command: ${e}`);
-          }
-          
-          // Utiliser directement la commande ip
-          execSync(`ip link delete ${iface}`, { stdio: 'inherit' });
-        } catch (error) {
-          logger.warn(`Failed to clean up interface ${iface}: ${(error as Error).message}`);
-        }
-      }
-      
+      this.removeInterfaces(interfaces);
       logger.success("All WireGuard interfaces cleaned up");
       return true;
     } catch (error) {
@@ -334,17 +813,37 @@ export class WireGuardManager {
   }
   
   /**
-   * Vérifier si une connexion VPN est active
-   * @returns Boolean indiquant si une connexion VPN est active
+   * Vérifier si une connexion VPN tpn-router est active
+   * @returns Boolean indiquant si une interface gérée par tpn-router est active
    */
   isVpnActive(): boolean {
-    try {
-      // Vérifier si des interfaces WireGuard sont actives
-      const output = execSync('wg show', { stdio: 'pipe' }).toString();
-      return output.includes('interface:');
-    } catch (error) {
-      return false;
-    }
+    return this.getManagedInterfaces().length > 0;
+  }
+  
+  /**
+   * Get a lease as a standalone WireGuard configuration, for wg-quick or another device
+   * @param country Country code, 'any', or a fallback chain such as "FR|BE|any"
+   * @param leaseMinutes Lease duration in minutes
+   * @returns Promise resolving to the parsed lease and the text saveConfig would write
+   */
+  async getStandaloneConfig(country: string = 'any', leaseMinutes: number = 5): Promise<{ config: WireGuardConfig; text: string }> {
+    logger.info(`Getting VPN config for country: ${country}`);
+    
+    // Validators known to serve each country are tried first
+    const response = await tpnClient.getConfigFromChain(parseCountryChain(country), leaseMinutes);
+    const config = this.parseTpnResponse(response, response.country || 'any');
+    return { config, text: this.renderConfig(config) };
+  }
+  
+  /**
+   * Write a WireGuard configuration readable by its owner only
+   * @param configPath Destination file
+   * @param text File contents
+   */
+  async writeConfigFile(configPath: string, text: string): Promise<void> {
+    await fsPromises.writeFile(configPath, text, { mode: 0o600 });
+    // The mode only applies to new files
+    await fsPromises.chmod(configPath, 0o600);
   }
   
   /**
@@ -355,25 +854,13 @@ export class WireGuardManager {
    */
   async getDirectConfig(country: string = 'any', leaseMinutes: number = 5): Promise<string> {
     try {
-      // Récupérer un validateur aléatoire
-      const validator = { ip: '185.189.44.166', port: 3000, isActive: true };
-      logger.info(`Getting direct VPN config for country: ${country}`);
-      
-      // Récupérer la configuration
-      const url = `http://${validator.ip}:${validator.port}/api/config/new`;
-      const response = await fetch(url + `?format=text&geo=${country}&lease_minutes=${leaseMinutes}`);
-      
-      if (!response.ok) {
-        throw new Error(`Failed to get config: ${response.status} ${response.statusText}`);
-      }
-      
-      const configText = await response.text();
+      const { text } = await this.getStandaloneConfig(country, leaseMinutes);
       
       // Sauvegarder dans un fichier temporaire
       const fileName = `tpn-direct-${Date.now()}.conf`;
       const configPath = path.join(this.configDir, fileName);
       
-      await fsPromises.writeFile(configPath, configText);
+      await this.writeConfigFile(configPath, text);
       logger.success(`Saved direct VPN config to ${configPath}`);
       return configPath;
     } catch (error) {
@@ -382,53 +869,29 @@ export class WireGuardManager {
     }
   }
   /**
- * Get information about active WireGuard interfaces
+ * Get information about the active tpn-router WireGuard interface
  * @returns Object containing information about the active interface, or null if none
  */
-async getActiveInterfaceInfo(): Promise<{
-  name: string;
-  endpoint?: string;
-  publicKey?: string;
-  allowedIPs?: string;
-  lastHandshake?: string;
-} | null> {
+async getActiveInterfaceInfo(): Promise<InterfaceInfo | null> {
   try {
-    // Vérifier d'abord si des interfaces WireGuard sont actives
-    let interfaces: string[] = [];
-    
-    try {
-      const output = execSync('ip link | grep -E "wg[0-9]|wg-"').toString();
-      interfaces = output.split('\n')
-        .filter(line => line.trim())
-        .map(line => {
-          const match = line.match(/\d+:\s+([^:@]+)[@:]?/);
-          return match ? match[1].trim() : null;
-        })
-        .filter((iface): iface is string => iface !== null);
-    } catch (error) {
-      // Si grep ne trouve rien, c'est normal
-      return null;
-    }
+    // Seules les interfaces créées par tpn-router sont prises en compte
+    const interfaces = this.getManagedInterfaces();
     
     if (interfaces.length === 0) {
       return null;
     }
     
-    // Prendre la première interface active (normalement il ne devrait y en avoir qu'une)
-    const interfaceName = interfaces[0];
+    // Pour un circuit, l'interface de sortie est la dernière enregistrée
+    const recorded = getState().interfaces.map(managed => managed.name);
+    const exitInterface = [...recorded].reverse().find(name => interfaces.includes(name));
+    const interfaceName = exitInterface || interfaces[0];
     
     // Obtenir des informations détaillées sur cette interface
     try {
       const output = execSync(`wg show ${interfaceName}`).toString();
       
       // Extraire les informations pertinentes
-      const result: {
-        name: string;
-        endpoint?: string;
-        publicKey?: string;
-        allowedIPs?: string;
-        lastHandshake?: string;
-      } = { name: interfaceName };
+      const result: InterfaceInfo = { name: interfaceName };
       
       // Analyser la sortie ligne par ligne
       const lines = output.split('\n');